@@ -0,0 +1,140 @@
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+
+const TEXT =
+  "Cats purr softly. Dogs bark loudly.\nBirds sing in trees. Fish swim in water.\n";
+
+// Runs the CLI from source, feeding `input` on stdin
+function runCli(args: string[], input = "") {
+  return spawnSync(
+    process.execPath,
+    [
+      "node_modules/vite-node/vite-node.mjs",
+      "--config",
+      "vite.cli.config.ts",
+      "src/cli/tinytaxonomy.ts",
+      "--",
+      ...args,
+    ],
+    { input, encoding: "utf8" },
+  );
+}
+
+function tinytaxonomy(args: string[], input = "") {
+  const result = runCli(args, input);
+  expect(result.stderr).not.toMatch(/tinytaxonomy:/);
+  expect(result.status).toBe(0);
+  return result.stdout;
+}
+
+describe("tinytaxonomy CLI", () => {
+  it("does not turn a trailing newline into an empty sentence", () => {
+    const tree = JSON.parse(
+      tinytaxonomy(["--mode", "sentence", "--format", "json"], TEXT),
+    );
+    const leaves: string[] = [];
+    const walk = (node: any) =>
+      node.children?.length
+        ? node.children.forEach(walk)
+        : leaves.push(node.name);
+    walk(tree.tree ?? tree);
+    expect(leaves.sort()).toEqual([
+      "Birds sing in trees.",
+      "Cats purr softly.",
+      "Dogs bark loudly.",
+      "Fish swim in water.",
+    ]);
+
+    expect(
+      tinytaxonomy(["--mode", "sentence", "--format", "newick"], TEXT),
+    ).not.toContain("'':");
+    const rows = tinytaxonomy(["--mode", "sentence", "--format", "csv"], TEXT)
+      .trim()
+      .split("\n");
+    expect(rows).toHaveLength(5);
+  }, 60_000);
+
+  it("ignores blank lines between paragraphs", () => {
+    const tree = tinytaxonomy(
+      ["--mode", "paragraph", "--format", "newick"],
+      `${TEXT}\n\n\n${TEXT}\n`,
+    );
+    expect(tree).not.toContain("'':");
+  }, 30_000);
+
+  it("re-cuts the dendrogram for --cut-clusters and --cut-height", () => {
+    const text =
+      "Cats purr on the sofa. Kittens purr in the sun. Dogs bark at the postman. Puppies bark at night. Trout swim upstream. Salmon swim to sea.";
+    const rows = (args: string[]) =>
+      tinytaxonomy(
+        [
+          "--mode",
+          "sentence",
+          "--format",
+          "csv",
+          "--cutoff-percentile",
+          "0.2",
+          ...args,
+        ],
+        text,
+      )
+        .trim()
+        .split("\n")
+        .slice(1);
+    const clusters = (args: string[]) =>
+      new Set(rows(args).map((line) => line.split(",")[2])).size;
+    const leaves = rows([]).length;
+    // Fewer clusters than the low automatic cutoff leaves at the top level
+    expect(clusters([])).toBeGreaterThan(2);
+    expect(clusters(["--cut-clusters", "2"])).toBe(2);
+    expect(clusters(["--cut-clusters", String(leaves)])).toBe(leaves);
+    expect(clusters(["--cut-height", "0"])).toBe(leaves);
+  }, 60_000);
+
+  it("keeps long flags apart from their description in --help", () => {
+    expect(tinytaxonomy(["--help"])).toMatch(
+      /--embedding-mode <embedding-mode> Use word vectors/,
+    );
+  }, 30_000);
+
+  it("joins the rows of several tables in row mode", () => {
+    const dir = mkdtempSync(join(tmpdir(), "tinytaxonomy-"));
+    const write = (name: string, text: string) => {
+      writeFileSync(join(dir, name), text);
+      return join(dir, name);
+    };
+    const cats = write(
+      "cats.csv",
+      'id,answer\n1,"Cats purr, mostly"\n2,Kittens purr in the sun\n',
+    );
+    const dogs = write(
+      "dogs.csv",
+      "id,answer\n3,Dogs bark at the postman\n4,Puppies bark at night\n",
+    );
+    const rows = tinytaxonomy([
+      "--mode",
+      "row",
+      "--format",
+      "csv",
+      "--text-column",
+      "answer",
+      cats,
+      dogs,
+    ])
+      .trim()
+      .split("\n")
+      .slice(1);
+    expect(rows).toHaveLength(4);
+    expect(rows.join("\n")).not.toContain("answer");
+    expect(rows[0]).toContain('"Cats purr, mostly"');
+
+    const other = write("other.csv", "id,text\n5,Trout swim upstream\n");
+    const mismatch = runCli(["--mode", "row", cats, other]);
+    expect(mismatch.status).toBe(2);
+    expect(mismatch.stderr).toMatch(/same columns/);
+    rmSync(dir, { recursive: true });
+  }, 60_000);
+});
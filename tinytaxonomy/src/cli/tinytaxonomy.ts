@@ -0,0 +1,620 @@
+/**
+ * tinytaxonomy — command-line front end for the taxonomy pipeline.
+ *
+ * Reads text from files, directories or stdin, runs the same NLP and
+ * clustering code as the browser worker and writes the resulting tree in any
+ * registered export format.
+ *
+ *   tinytaxonomy notes.txt --mode sentence --format json -o tree.json
+ *   cat survey.txt | tinytaxonomy --mode paragraph --no-ngrams
+ *   tinytaxonomy ./corpus --out-dir ./trees
+ *   tinytaxonomy notes.txt --mode sentence --embeddings glove.6B.100d.txt
+ */
+
+import {
+  createReadStream,
+  readFileSync,
+  writeFileSync,
+  readdirSync,
+  statSync,
+  mkdirSync,
+} from "node:fs";
+import { basename, extname, join } from "node:path";
+import { Readable } from "node:stream";
+import { parseArgs } from "node:util";
+import {
+  analyseText,
+  recutTaxonomy,
+  toLinkage,
+  type DendrogramCut,
+} from "../lib/pipeline";
+import { readEmbeddings, type WordEmbeddings } from "../lib/utils/embeddings";
+import { exportFormats, getExportFormat } from "../lib/export";
+import { detectSourceKind, stripMarkdown } from "../lib/utils/fileImport";
+import { formatDelimited, parseDelimited } from "../lib/utils/csv";
+import {
+  MODES,
+  LINKAGES,
+  CLUSTER_ALGORITHMS,
+  APPROXIMATE_MODES,
+  TERM_WEIGHTINGS,
+  DISTANCE_METRICS,
+  WORD_CONTEXTS,
+  EMBEDDING_MODES,
+  type Mode,
+  type ProgressUpdate,
+  type WorkerOptions,
+} from "../lib/types";
+
+const TEXT_EXTENSIONS = new Set([".txt", ".md", ".text", ".csv", ".tsv"]);
+
+interface OptionFlag {
+  key: keyof WorkerOptions;
+  flag: string;
+  type: "boolean" | "number" | "list" | "string";
+  description: string;
+  // Allowed values for string flags
+  choices?: readonly string[];
+}
+
+// One entry per WorkerOptions field the pipeline reads. Boolean flags also
+// accept a `--no-` form.
+const OPTION_FLAGS: OptionFlag[] = [
+  {
+    key: "nounOnly",
+    flag: "noun-only",
+    type: "boolean",
+    description: "Keep nouns only (word mode)",
+  },
+  {
+    key: "minWordFreq",
+    flag: "min-word-freq",
+    type: "number",
+    description: "Minimum token frequency (word mode)",
+  },
+  {
+    key: "customStopwords",
+    flag: "stopwords",
+    type: "list",
+    description: "Comma-separated words to exclude",
+  },
+  {
+    key: "wordContext",
+    flag: "word-context",
+    type: "string",
+    choices: WORD_CONTEXTS,
+    description: `Word mode contexts: ${WORD_CONTEXTS.join(" | ")} (default: sentence)`,
+  },
+  {
+    key: "contextWindow",
+    flag: "context-window",
+    type: "number",
+    description: "Words either side in window contexts (default: 4)",
+  },
+  {
+    key: "enablePpmi",
+    flag: "ppmi",
+    type: "boolean",
+    description: "Weight word co-occurrences by positive PMI (default: off)",
+  },
+  {
+    key: "enableEnhancedPipeline",
+    flag: "enhanced-pipeline",
+    type: "boolean",
+    description: "Use the enhanced NLP pipeline (default: on)",
+  },
+  {
+    key: "enableLemmatization",
+    flag: "lemmatization",
+    type: "boolean",
+    description: "Lemmatize tokens (default: on)",
+  },
+  {
+    key: "enableNgrams",
+    flag: "ngrams",
+    type: "boolean",
+    description: "Detect bigrams/trigrams (default: on)",
+  },
+  {
+    key: "minNgramFreq",
+    flag: "min-ngram-freq",
+    type: "number",
+    description: "Min occurrences for n-grams (default: 2)",
+  },
+  {
+    key: "nounPhraseBoost",
+    flag: "noun-phrase-boost",
+    type: "number",
+    description: "Weight boost for noun phrases (default: 1.3)",
+  },
+  {
+    key: "glueWordPenalty",
+    flag: "glue-word-penalty",
+    type: "number",
+    description: "Penalty for glue words (default: 0.5)",
+  },
+  {
+    key: "normalizeVectors",
+    flag: "normalize-vectors",
+    type: "boolean",
+    description: "L2 normalize TF-IDF vectors (default: on)",
+  },
+  {
+    key: "enableAutoCutoff",
+    flag: "auto-cutoff",
+    type: "boolean",
+    description: "Auto-cut the dendrogram (default: on)",
+  },
+  {
+    key: "cutoffPercentile",
+    flag: "cutoff-percentile",
+    type: "number",
+    description: "Percentile for dendrogram cutoff (default: 0.85)",
+  },
+  {
+    key: "weighting",
+    flag: "weighting",
+    type: "string",
+    choices: TERM_WEIGHTINGS,
+    description: `${TERM_WEIGHTINGS.join(" | ")} (default: tfidf)`,
+  },
+  {
+    key: "metric",
+    flag: "metric",
+    type: "string",
+    choices: DISTANCE_METRICS,
+    description: `${DISTANCE_METRICS.join(" | ")} (default: cosine)`,
+  },
+  {
+    key: "enableLsa",
+    flag: "lsa",
+    type: "boolean",
+    description:
+      "Project vectors with LSA / SVD smoothing before distances (default: off)",
+  },
+  {
+    key: "lsaDimensions",
+    flag: "lsa-dimensions",
+    type: "number",
+    description: "Number of LSA dimensions (default: 100)",
+  },
+  {
+    key: "embeddings",
+    flag: "embeddings",
+    type: "string",
+    description: "Word vectors file: GloVe/fastText text or word2vec .bin",
+  },
+  {
+    key: "embeddingMode",
+    flag: "embedding-mode",
+    type: "string",
+    choices: EMBEDDING_MODES,
+    description: `Use word vectors as: ${EMBEDDING_MODES.join(" | ")} (default: average)`,
+  },
+  {
+    key: "embeddingWeight",
+    flag: "embedding-weight",
+    type: "number",
+    description:
+      "Share of word-vector similarity when blending, 0–1 (default: 0.5)",
+  },
+  {
+    key: "algorithm",
+    flag: "algorithm",
+    type: "string",
+    choices: CLUSTER_ALGORITHMS,
+    description: `${CLUSTER_ALGORITHMS.join(" | ")} (default: agglomerative)`,
+  },
+  {
+    key: "linkage",
+    flag: "linkage",
+    type: "string",
+    choices: LINKAGES,
+    description: `${LINKAGES.join(" | ")} (default: average)`,
+  },
+  {
+    key: "enableMetrics",
+    flag: "metrics",
+    type: "boolean",
+    description:
+      "Score the clusters: cophenetic correlation, silhouettes (default: on)",
+  },
+  {
+    key: "approximate",
+    flag: "approximate",
+    type: "string",
+    choices: APPROXIMATE_MODES,
+    description: `Micro-cluster large inputs: ${APPROXIMATE_MODES.join(" | ")} (default: auto)`,
+  },
+  {
+    key: "approximateThreshold",
+    flag: "approximate-threshold",
+    type: "number",
+    description: "Segment count above which auto approximates (default: 2000)",
+  },
+  {
+    key: "microClusters",
+    flag: "micro-clusters",
+    type: "number",
+    description: "Number of micro-clusters (default: min(1000, 10·√n))",
+  },
+  {
+    key: "textColumn",
+    flag: "text-column",
+    type: "string",
+    description: "Column to cluster (row mode; default: longest column)",
+  },
+  {
+    key: "delimiter",
+    flag: "delimiter",
+    type: "string",
+    description: "Field delimiter: , ; or tab (row mode; default: sniffed)",
+  },
+];
+
+class UsageError extends Error {}
+
+// A help line: the flag padded to a column, then its description
+function usageLine(flag: string, description: string): string {
+  return `  ${flag.padEnd(30)} ${description}`;
+}
+
+function usage(): string {
+  const optionLines = OPTION_FLAGS.map((o) => {
+    const placeholder =
+      o.type === "list"
+        ? "a,b,c"
+        : o.type === "string"
+          ? o.choices
+            ? o.flag
+            : "value"
+          : "n";
+    const flag =
+      o.type === "boolean"
+        ? `--[no-]${o.flag}`
+        : `--${o.flag} <${placeholder}>`;
+    return usageLine(flag, o.description);
+  });
+  return [
+    "Usage: tinytaxonomy [options] [file|dir|-]...",
+    "",
+    "Reads text from the given files (directories expand to their .txt/.md files)",
+    "or from stdin, and writes the taxonomy tree to stdout or a file.",
+    "",
+    "General:",
+    usageLine("-m, --mode <mode>", `${MODES.join(" | ")} (default: word)`),
+    usageLine(
+      "-f, --format <format>",
+      `${Object.keys(exportFormats).join(" | ")} (default: json)`,
+    ),
+    usageLine("-o, --output <file>", "Write to a file instead of stdout"),
+    usageLine(
+      "--out-dir <dir>",
+      "Build one taxonomy per input file into <dir>",
+    ),
+    usageLine("--base-iri <iri>", "Namespace for concept IRIs (SKOS formats)"),
+    usageLine(
+      "--cut-height <h>",
+      "Cut the dendrogram at merge height <h> (CSV/TSV)",
+    ),
+    usageLine(
+      "--cut-clusters <k>",
+      "Cut the dendrogram into <k> clusters (CSV/TSV)",
+    ),
+    usageLine("-v, --verbose", "Print progress messages to stderr"),
+    usageLine("-h, --help", "Show this help"),
+    "",
+    "Pipeline options:",
+    ...optionLines,
+  ].join("\n");
+}
+
+function parseCommandLine(argv: string[]) {
+  const optionConfig: Record<
+    string,
+    { type: "string" | "boolean"; short?: string }
+  > = {
+    mode: { type: "string", short: "m" },
+    format: { type: "string", short: "f" },
+    output: { type: "string", short: "o" },
+    "out-dir": { type: "string" },
+    "base-iri": { type: "string" },
+    "cut-height": { type: "string" },
+    "cut-clusters": { type: "string" },
+    verbose: { type: "boolean", short: "v" },
+    help: { type: "boolean", short: "h" },
+  };
+  for (const o of OPTION_FLAGS) {
+    if (o.type === "boolean") {
+      optionConfig[o.flag] = { type: "boolean" };
+      optionConfig[`no-${o.flag}`] = { type: "boolean" };
+    } else {
+      optionConfig[o.flag] = { type: "string" };
+    }
+  }
+
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: optionConfig,
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+  const values = parsed.values as Record<string, string | boolean | undefined>;
+
+  const mode = (values.mode ?? "word") as Mode;
+  if (!MODES.includes(mode)) {
+    throw new UsageError(
+      `Unknown mode "${mode}" (expected ${MODES.join(", ")})`,
+    );
+  }
+
+  const format = getExportFormat(String(values.format ?? "json"));
+  if (!format) {
+    throw new UsageError(
+      `Unknown format "${values.format}" (expected ${Object.keys(exportFormats).join(", ")})`,
+    );
+  }
+
+  let cut: DendrogramCut | undefined;
+  if (
+    values["cut-height"] !== undefined &&
+    values["cut-clusters"] !== undefined
+  ) {
+    throw new UsageError("Use either --cut-height or --cut-clusters, not both");
+  }
+  if (typeof values["cut-height"] === "string") {
+    const height = Number(values["cut-height"]);
+    if (!Number.isFinite(height))
+      throw new UsageError(
+        `--cut-height expects a number, got "${values["cut-height"]}"`,
+      );
+    cut = { by: "height", height };
+  }
+  if (typeof values["cut-clusters"] === "string") {
+    const count = Number(values["cut-clusters"]);
+    if (!Number.isInteger(count) || count < 1)
+      throw new UsageError(
+        `--cut-clusters expects a positive integer, got "${values["cut-clusters"]}"`,
+      );
+    cut = { by: "count", count };
+  }
+
+  // Values are checked against each flag's type before they are stored
+  const parsedOptions: Partial<Record<keyof WorkerOptions, unknown>> = {};
+  for (const o of OPTION_FLAGS) {
+    if (o.type === "boolean") {
+      if (values[o.flag]) parsedOptions[o.key] = true;
+      if (values[`no-${o.flag}`]) parsedOptions[o.key] = false;
+      continue;
+    }
+    const raw = values[o.flag];
+    if (typeof raw !== "string") continue;
+    if (o.type === "list") {
+      parsedOptions[o.key] = raw
+        .split(",")
+        .map((s) => s.trim())
+        .filter((s) => s.length > 0);
+    } else if (o.type === "string") {
+      if (o.choices && !o.choices.includes(raw)) {
+        throw new UsageError(
+          `--${o.flag} expects one of ${o.choices.join(", ")}, got "${raw}"`,
+        );
+      }
+      parsedOptions[o.key] = raw;
+    } else {
+      const n = Number(raw);
+      if (!Number.isFinite(n))
+        throw new UsageError(`--${o.flag} expects a number, got "${raw}"`);
+      parsedOptions[o.key] = n;
+    }
+  }
+  const options = parsedOptions as WorkerOptions;
+
+  if (options.delimiter !== undefined) {
+    const delimiter =
+      (options.delimiter as string) === "tab" ? "\t" : options.delimiter;
+    if (delimiter !== "," && delimiter !== "\t" && delimiter !== ";") {
+      throw new UsageError(
+        `--delimiter expects ",", ";" or "tab", got "${options.delimiter}"`,
+      );
+    }
+    options.delimiter = delimiter;
+  }
+
+  return {
+    help: values.help === true,
+    verbose: values.verbose === true,
+    mode,
+    format,
+    output: values.output as string | undefined,
+    outDir: values["out-dir"] as string | undefined,
+    baseIri: values["base-iri"] as string | undefined,
+    cut,
+    inputs: parsed.positionals,
+    options,
+  };
+}
+
+/**
+ * Expand positional arguments into a list of input files; `-` means stdin.
+ */
+function expandInputs(inputs: string[]): string[] {
+  const files: string[] = [];
+  for (const input of inputs) {
+    if (input === "-") {
+      files.push(input);
+      continue;
+    }
+    const stat = statSync(input);
+    if (stat.isDirectory()) {
+      const entries = readdirSync(input).sort();
+      files.push(
+        ...expandInputs(
+          entries
+            .map((e) => join(input, e))
+            .filter(
+              (p) =>
+                statSync(p).isDirectory() ||
+                TEXT_EXTENSIONS.has(extname(p).toLowerCase()),
+            ),
+        ),
+      );
+    } else {
+      files.push(input);
+    }
+  }
+  return files;
+}
+
+function readInput(file: string): string {
+  const text = readFileSync(file === "-" ? 0 : file, "utf8");
+  return file !== "-" && detectSourceKind(file) === "markdown"
+    ? stripMarkdown(text)
+    : text;
+}
+
+/**
+ * Row mode over several files: parse each table on its own and write one
+ * table with all their rows. The files must have the same columns.
+ */
+function joinTables(files: string[], options: WorkerOptions): string {
+  const tables = files.map((file) => ({
+    file,
+    table: parseDelimited(readInput(file), options.delimiter),
+  }));
+  const [first] = tables;
+  for (const { file, table } of tables.slice(1)) {
+    if (table.headers.join("\u0000") !== first.table.headers.join("\u0000")) {
+      throw new UsageError(
+        `${file} has columns ${table.headers.join(", ")}, but ${first.file} has ${first.table.headers.join(", ")}; ` +
+          "row mode needs the same columns in every file (or use --out-dir)",
+      );
+    }
+  }
+  return formatDelimited({
+    ...first.table,
+    rows: tables.flatMap(({ table }) => table.rows),
+  });
+}
+
+// Word vectors named by --embeddings, streamed from disk
+async function loadEmbeddingsFile(
+  file: string,
+  log?: (message: string) => void,
+): Promise<WordEmbeddings> {
+  log?.(`Reading word vectors from ${file}...`);
+  const stream = Readable.toWeb(
+    createReadStream(file),
+  ) as ReadableStream<Uint8Array>;
+  const embeddings = await readEmbeddings(file, stream, {
+    totalBytes: statSync(file).size,
+  });
+  log?.(
+    `${embeddings.words.length} words × ${embeddings.dimensions} dimensions`,
+  );
+  return embeddings;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const args = parseCommandLine(argv);
+  if (args.help) {
+    process.stdout.write(usage() + "\n");
+    return 0;
+  }
+
+  const files = expandInputs(args.inputs.length ? args.inputs : ["-"]);
+  if (files.length === 0)
+    throw new UsageError("No text files found in the given inputs");
+
+  const log = args.verbose
+    ? (message: string) => process.stderr.write(`${message}\n`)
+    : undefined;
+  // Stages also send bare fraction updates; print each step once
+  let lastMessage = "";
+  const onProgress =
+    log &&
+    ((update: ProgressUpdate) => {
+      if (update.message === lastMessage) return;
+      lastMessage = update.message;
+      log(
+        `[${Math.round(update.fraction * 100)
+          .toString()
+          .padStart(3)}%] ${update.message}`,
+      );
+    });
+  const embeddings = args.options.embeddings
+    ? await loadEmbeddingsFile(args.options.embeddings, log)
+    : undefined;
+  const run = (text: string) => {
+    const analysis = analyseText(
+      text,
+      args.mode,
+      args.options,
+      onProgress,
+      embeddings,
+    );
+    const { metrics, dendrogram, cutoff } = analysis;
+    if (metrics) {
+      log?.(
+        `Cophenetic correlation ${metrics.copheneticCorrelation.toFixed(3)}, silhouette ${metrics.silhouette.toFixed(3)} ` +
+          `over ${metrics.clusters.length} top-level clusters, best k ${metrics.suggestedK ?? "n/a"}`,
+      );
+    }
+    // The flat formats write the top-level clusters of a re-cut of the whole dendrogram
+    const tree =
+      args.format.usesCut && args.cut
+        ? recutTaxonomy(analysis, args.cut)
+        : analysis.tree;
+    return args.format.serialize(tree, {
+      mode: args.mode,
+      options: args.options,
+      text,
+      baseIri: args.baseIri,
+      linkage: toLinkage(dendrogram),
+      cutoff,
+    });
+  };
+
+  if (args.outDir) {
+    mkdirSync(args.outDir, { recursive: true });
+    for (const file of files) {
+      const name = file === "-" ? "stdin" : basename(file, extname(file));
+      const target = join(args.outDir, `${name}.${args.format.extension}`);
+      log?.(`${file} → ${target}`);
+      writeFileSync(target, run(readInput(file)));
+    }
+    return 0;
+  }
+
+  // Without --out-dir all inputs are treated as one document, separated like
+  // paragraphs; tables keep one header row above the rows of every file
+  const text =
+    args.mode === "row" && files.length > 1
+      ? joinTables(files, args.options)
+      : files.map(readInput).join("\n\n");
+  const result = run(text);
+  if (args.output) {
+    writeFileSync(args.output, result);
+  } else {
+    process.stdout.write(result.endsWith("\n") ? result : result + "\n");
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    process.stderr.write(
+      `tinytaxonomy: ${err instanceof Error ? err.message : String(err)}\n`,
+    );
+    if (err instanceof UsageError) process.stderr.write(`\n${usage()}\n`);
+    process.exitCode = err instanceof UsageError ? 2 : 1;
+  },
+);
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import {
+  jsonFormat,
+  parseTaxonomyJson,
+  TaxonomyImportError,
+  TAXONOMY_SCHEMA_VERSION,
+} from "./index";
+import { analyseText, toLinkage } from "../pipeline";
+import { recordEdit, emptyHistory, replayEdits } from "../utils/curation";
+import type { TaxonomySource } from "../types";
+
+const source: TaxonomySource = {
+  text: "Cats purr on the sofa. Dogs bark at the postman. Kittens purr in the sun. Puppies bark at night. Trout swim upstream. Salmon swim to sea.",
+  mode: "sentence",
+  options: { linkage: "complete", customStopwords: ["the"], delimiter: "\t" },
+};
+
+describe("JSON envelope", () => {
+  it("round-trips the tree, its inputs, the dendrogram, the cut and the edit log", () => {
+    const analysis = analyseText(source.text, source.mode, source.options);
+    const linkage = toLinkage(analysis.dendrogram);
+    const rename = {
+      kind: "rename" as const,
+      nodeId: analysis.tree.id!,
+      label: "Everything [renamed]",
+    };
+    const { history, tree } = recordEdit(emptyHistory(), analysis.tree, rename);
+    const curation = {
+      base: history.done[0].before,
+      edits: history.done.map(({ edit, description, at }) => ({
+        edit,
+        description,
+        at,
+      })),
+    };
+
+    const json = jsonFormat.serialize(tree, {
+      ...source,
+      linkage,
+      cutoff: analysis.cutoff,
+      dendrogramCut: { by: "count", count: 3 },
+      curation,
+    });
+    const imported = parseTaxonomyJson(json);
+
+    expect(imported.schemaVersion).toBe(TAXONOMY_SCHEMA_VERSION);
+    expect(imported.warnings).toEqual([]);
+    expect(imported.source).toEqual(source);
+    expect(imported.tree).toEqual(tree);
+    expect(imported.linkage).toEqual(linkage);
+    expect(imported.linkage!.parents).toBeInstanceOf(Int32Array);
+    expect(imported.cutoff).toBe(analysis.cutoff);
+    expect(imported.cut).toEqual({ by: "count", count: 3 });
+    expect(imported.curation).toEqual(curation);
+    expect(
+      replayEdits(imported.curation!.base, imported.curation!.edits).tree,
+    ).toEqual(tree);
+  });
+
+  it("reads schema 1 files and bare trees", () => {
+    const tree = {
+      name: "root",
+      children: [{ name: "leaf", fullText: "leaf" }],
+    };
+    const v1 = parseTaxonomyJson(
+      JSON.stringify({
+        format: "tinytaxonomy",
+        schemaVersion: 1,
+        mode: "word",
+        options: {},
+        text: "leaf",
+        tree,
+      }),
+    );
+    expect(v1.tree).toEqual(tree);
+    expect(v1.linkage).toBeUndefined();
+    expect(v1.warnings).toEqual([]);
+
+    const bare = parseTaxonomyJson(JSON.stringify(tree));
+    expect(bare.schemaVersion).toBe(0);
+    expect(bare.warnings).toHaveLength(1);
+  });
+
+  it("leaves out option values a newer version may store, with a warning", () => {
+    const imported = parseTaxonomyJson(
+      JSON.stringify({
+        format: "tinytaxonomy",
+        schemaVersion: TAXONOMY_SCHEMA_VERSION + 1,
+        mode: "word",
+        options: { linkage: "ward", futureOption: { nested: true } },
+        tree: { name: "root" },
+      }),
+    );
+    expect(imported.source.options).toEqual({ linkage: "ward" });
+    expect(imported.warnings).toHaveLength(2);
+  });
+
+  it("leaves out option values outside their choices or ranges, with a warning", () => {
+    const imported = parseTaxonomyJson(
+      JSON.stringify({
+        format: "tinytaxonomy",
+        schemaVersion: TAXONOMY_SCHEMA_VERSION,
+        mode: "word",
+        options: {
+          metric: "manhattan",
+          weighting: "bm25",
+          linkage: "ward",
+          algorithm: "kmeans",
+          lsaDimensions: 2.5,
+          cutoffPercentile: 1.5,
+          embeddingWeight: 0.25,
+          enableLsa: "yes",
+          delimiter: "\t",
+          futureOption: 3,
+        },
+        tree: { name: "root" },
+      }),
+    );
+    expect(imported.source.options).toEqual({
+      weighting: "bm25",
+      linkage: "ward",
+      embeddingWeight: 0.25,
+      delimiter: "\t",
+      futureOption: 3,
+    });
+    expect(imported.warnings).toEqual([
+      'Option "metric" is "manhattan", not one of "cosine", "jaccard", "euclidean", "jensen-shannon", and was left out.',
+      'Option "algorithm" is "kmeans", not one of "agglomerative", "divisive", and was left out.',
+      'Option "lsaDimensions" is 2.5, not an integer ≥ 1, and was left out.',
+      'Option "cutoffPercentile" is 1.5, not a number from 0 to 1, and was left out.',
+      'Option "enableLsa" is "yes", not true or false, and was left out.',
+    ]);
+  });
+
+  it("rejects malformed dendrograms and cuts", () => {
+    const envelope = {
+      format: "tinytaxonomy",
+      schemaVersion: 2,
+      mode: "word",
+      options: {},
+      tree: { name: "root" },
+    };
+    const parse = (extra: object) => () =>
+      parseTaxonomyJson(JSON.stringify({ ...envelope, ...extra }));
+    expect(
+      parse({
+        linkage: { leafCount: 2, parents: [2, 2, -1], heights: [0, 0] },
+      }),
+    ).toThrow(TaxonomyImportError);
+    expect(
+      parse({
+        linkage: { leafCount: 2, parents: [2, 5, -1], heights: [0, 0, 1] },
+      }),
+    ).toThrow(TaxonomyImportError);
+    expect(parse({ cut: { by: "height" } })).toThrow(TaxonomyImportError);
+    expect(
+      parse({
+        curation: { base: { name: "root" }, edits: [{ description: "x" }] },
+      }),
+    ).toThrow(TaxonomyImportError);
+    expect(
+      parse({
+        linkage: { leafCount: 2, parents: [2, 2, -1], heights: [0, 0, 1] },
+        cut: { by: "none" },
+      }),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * Versioned JSON envelope for saved taxonomies.
+ *
+ * The JSON export wraps the tree together with everything needed to reopen
+ * the session: source text, mode and worker options, and (schema 2) the
+ * dendrogram with the cut shown and the log of hand edits. Imports validate
+ * the envelope, accept files written by newer versions as long as the
+ * fields they rely on are intact, and still read the bare `TaxonomyNode`
+ * files written before the envelope existed.
+ *
+ * Schema history:
+ *   1. mode, options, text, tree
+ *   2. adds linkage, cutoff, cut and curation (all optional)
+ */
+
+import {
+  APPROXIMATE_MODES,
+  CLUSTER_ALGORITHMS,
+  EMBEDDING_MODES,
+  LINKAGES,
+  MODES,
+  WORD_CONTEXTS,
+  type Mode,
+  type TaxonomyNode,
+  type TaxonomySource,
+  type WorkerOptions,
+} from "../types";
+import type { DendrogramCut, DendrogramLinkage } from "../pipeline/cut";
+import type { CurationLog } from "../utils/curation";
+import { DISTANCE_METRIC_DEFINITIONS, WEIGHTING_SCHEMES } from "../utils/math";
+import type { ExportContext } from "./index";
+
+export const TAXONOMY_FORMAT = "tinytaxonomy";
+export const TAXONOMY_SCHEMA_VERSION = 2;
+
+// `DendrogramLinkage` with plain arrays, as JSON holds it
+export interface SavedLinkage {
+  leafCount: number;
+  parents: number[];
+  heights: number[];
+}
+
+export interface TaxonomyEnvelope {
+  format: typeof TAXONOMY_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  mode: Mode;
+  options: WorkerOptions;
+  text: string;
+  tree: TaxonomyNode;
+  // The whole dendrogram behind the tree
+  linkage?: SavedLinkage;
+  // Merge height of the automatic cut
+  cutoff?: number;
+  // Cut picked on the cutoff slider, when it was moved
+  cut?: DendrogramCut;
+  // Hand edits made to the tree, to restore undo
+  curation?: CurationLog;
+}
+
+export interface ImportedTaxonomy {
+  source: TaxonomySource;
+  tree: TaxonomyNode;
+  schemaVersion: number;
+  linkage?: DendrogramLinkage;
+  cutoff?: number;
+  cut?: DendrogramCut;
+  curation?: CurationLog;
+  // Non-fatal notes for the user (legacy file, newer schema, ...)
+  warnings: string[];
+}
+
+export class TaxonomyImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TaxonomyImportError";
+  }
+}
+
+export function createEnvelope(
+  tree: TaxonomyNode,
+  context: ExportContext = {},
+): TaxonomyEnvelope {
+  const { linkage } = context;
+  return {
+    format: TAXONOMY_FORMAT,
+    schemaVersion: TAXONOMY_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    mode: context.mode ?? "word",
+    options: context.options ?? {},
+    text: context.text ?? "",
+    tree,
+    ...(linkage && {
+      linkage: {
+        leafCount: linkage.leafCount,
+        parents: Array.from(linkage.parents),
+        heights: Array.from(linkage.heights),
+      },
+    }),
+    ...(context.cutoff !== undefined && { cutoff: context.cutoff }),
+    ...(context.dendrogramCut && { cut: context.dendrogramCut }),
+    ...(context.curation && { curation: context.curation }),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function expectType(
+  value: unknown,
+  type: "string" | "number",
+  path: string,
+  optional = true,
+) {
+  if (value === undefined && optional) return;
+  if (typeof value !== type)
+    throw new TaxonomyImportError(`${path} must be a ${type}`);
+}
+
+function expectStringArray(value: unknown, path: string) {
+  if (value === undefined) return;
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    throw new TaxonomyImportError(`${path} must be an array of strings`);
+  }
+}
+
+/**
+ * Check that a value has the `TaxonomyNode` shape, recursively.
+ */
+export function validateTaxonomyNode(
+  value: unknown,
+  path = "tree",
+): asserts value is TaxonomyNode {
+  if (!isObject(value))
+    throw new TaxonomyImportError(`${path} must be an object`);
+
+  expectType(value.name, "string", `${path}.name`, false);
+  expectType(value.id, "number", `${path}.id`);
+  expectType(value.value, "number", `${path}.value`);
+  expectType(value.height, "number", `${path}.height`);
+  expectType(value.fullText, "string", `${path}.fullText`);
+  expectType(value.index, "number", `${path}.index`);
+  expectType(value.label, "string", `${path}.label`);
+  expectType(value.silhouette, "number", `${path}.silhouette`);
+  expectStringArray(value.sampleLeaves, `${path}.sampleLeaves`);
+  expectStringArray(value.clusterKeywords, `${path}.clusterKeywords`);
+  if (value.clusterLabel !== undefined && value.clusterLabel !== null) {
+    expectType(value.clusterLabel, "string", `${path}.clusterLabel`);
+  }
+  if (value.metadata !== undefined) {
+    if (
+      !isObject(value.metadata) ||
+      Object.values(value.metadata).some((v) => typeof v !== "string")
+    ) {
+      throw new TaxonomyImportError(
+        `${path}.metadata must be an object of strings`,
+      );
+    }
+  }
+  if (
+    value.type !== undefined &&
+    value.type !== "cluster" &&
+    value.type !== "leaf"
+  ) {
+    throw new TaxonomyImportError(`${path}.type must be "cluster" or "leaf"`);
+  }
+
+  for (const key of ["children", "_children"] as const) {
+    const children = value[key];
+    if (children === undefined || children === null) continue;
+    if (!Array.isArray(children))
+      throw new TaxonomyImportError(`${path}.${key} must be an array`);
+    children.forEach((child, i) =>
+      validateTaxonomyNode(child, `${path}.${key}[${i}]`),
+    );
+  }
+}
+
+// What a known option may hold, and how to say so in a warning
+interface OptionRule {
+  accepts: (value: unknown) => boolean;
+  expected: string;
+}
+
+const BOOLEAN: OptionRule = {
+  accepts: (v) => typeof v === "boolean",
+  expected: "true or false",
+};
+
+const TEXT: OptionRule = {
+  accepts: (v) => typeof v === "string",
+  expected: "a string",
+};
+
+function oneOf(values: readonly string[]): OptionRule {
+  return {
+    accepts: (v) => typeof v === "string" && values.includes(v),
+    expected: `one of ${values.map((v) => JSON.stringify(v)).join(", ")}`,
+  };
+}
+
+function numberIn(
+  min: number,
+  max = Infinity,
+  { integer = false } = {},
+): OptionRule {
+  const kind = integer ? "an integer" : "a number";
+  return {
+    accepts: (v) =>
+      typeof v === "number" &&
+      v >= min &&
+      v <= max &&
+      (integer ? Number.isInteger(v) : Number.isFinite(v)),
+    expected:
+      max === Infinity ? `${kind} ≥ ${min}` : `${kind} from ${min} to ${max}`,
+  };
+}
+
+// One rule per single-valued WorkerOptions field; `customStopwords` is a list
+const OPTION_RULES: Record<
+  Exclude<keyof WorkerOptions, "customStopwords">,
+  OptionRule
+> = {
+  nounOnly: BOOLEAN,
+  minWordFreq: numberIn(0),
+  minTfIdf: numberIn(0),
+  wordContext: oneOf(WORD_CONTEXTS),
+  contextWindow: numberIn(1, Infinity, { integer: true }),
+  enablePpmi: BOOLEAN,
+  enableEnhancedPipeline: BOOLEAN,
+  enableLemmatization: BOOLEAN,
+  enableNgrams: BOOLEAN,
+  minNgramFreq: numberIn(1, Infinity, { integer: true }),
+  nounPhraseBoost: numberIn(0),
+  glueWordPenalty: numberIn(0),
+  normalizeVectors: BOOLEAN,
+  enableAutoCutoff: BOOLEAN,
+  cutoffPercentile: numberIn(0, 1),
+  weighting: oneOf(Object.keys(WEIGHTING_SCHEMES)),
+  metric: oneOf(Object.keys(DISTANCE_METRIC_DEFINITIONS)),
+  enableLsa: BOOLEAN,
+  lsaDimensions: numberIn(1, Infinity, { integer: true }),
+  embeddings: TEXT,
+  embeddingMode: oneOf(EMBEDDING_MODES),
+  embeddingWeight: numberIn(0, 1),
+  algorithm: oneOf(CLUSTER_ALGORITHMS),
+  linkage: oneOf(LINKAGES),
+  enableMetrics: BOOLEAN,
+  approximate: oneOf(APPROXIMATE_MODES),
+  approximateThreshold: numberIn(1, Infinity, { integer: true }),
+  microClusters: numberIn(1, Infinity, { integer: true }),
+  textColumn: TEXT,
+  delimiter: oneOf([",", "\t", ";"]),
+};
+
+/**
+ * Options of the file. Values this version cannot use (an object where a
+ * newer version may store one, or a value outside a known option's range)
+ * are left out with a warning, like other unknown fields, instead of failing
+ * the import. Unknown options with plain values are kept.
+ */
+function validateOptions(value: unknown, warnings: string[]): WorkerOptions {
+  if (value === undefined) return {};
+  if (!isObject(value))
+    throw new TaxonomyImportError("options must be an object");
+  const options: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (v === undefined) continue;
+    if (key === "customStopwords") {
+      expectStringArray(v, `options.${key}`);
+    } else if (Object.hasOwn(OPTION_RULES, key)) {
+      const rule = OPTION_RULES[key as keyof typeof OPTION_RULES];
+      if (!rule.accepts(v)) {
+        warnings.push(
+          `Option "${key}" is ${JSON.stringify(v)}, not ${rule.expected}, and was left out.`,
+        );
+        continue;
+      }
+    } else if (
+      typeof v !== "boolean" &&
+      typeof v !== "number" &&
+      typeof v !== "string"
+    ) {
+      warnings.push(
+        `Option "${key}" has a value this version cannot use and was left out.`,
+      );
+      continue;
+    }
+    options[key] = v;
+  }
+  return options as WorkerOptions;
+}
+
+function validateLinkage(value: unknown): DendrogramLinkage | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value))
+    throw new TaxonomyImportError("linkage must be an object");
+  const { leafCount, parents, heights } = value;
+  const isNumbers = (list: unknown): list is number[] =>
+    Array.isArray(list) && list.every((v) => typeof v === "number");
+  if (
+    typeof leafCount !== "number" ||
+    !Number.isInteger(leafCount) ||
+    leafCount < 1 ||
+    !isNumbers(parents) ||
+    !isNumbers(heights) ||
+    parents.length !== heights.length ||
+    parents.length < leafCount ||
+    parents.some(
+      (p, i) =>
+        !Number.isInteger(p) || p < -1 || p >= parents.length || p === i,
+    )
+  ) {
+    throw new TaxonomyImportError(
+      "linkage must hold leafCount and matching parents and heights arrays",
+    );
+  }
+  return {
+    leafCount,
+    parents: Int32Array.from(parents),
+    heights: Float64Array.from(heights),
+  };
+}
+
+function validateCut(value: unknown): DendrogramCut | undefined {
+  if (value === undefined) return undefined;
+  if (isObject(value)) {
+    if (value.by === "none") return { by: "none" };
+    for (const by of ["height", "percentile", "count"] as const) {
+      if (value.by === by && typeof value[by] === "number")
+        return { by, [by]: value[by] } as DendrogramCut;
+    }
+  }
+  throw new TaxonomyImportError(
+    "cut must be a height, percentile or count cut",
+  );
+}
+
+function validateCuration(value: unknown): CurationLog | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value) || !Array.isArray(value.edits)) {
+    throw new TaxonomyImportError(
+      "curation must hold a base tree and a list of edits",
+    );
+  }
+  validateTaxonomyNode(value.base, "curation.base");
+  value.edits.forEach((step, i) => {
+    if (
+      !isObject(step) ||
+      !isObject(step.edit) ||
+      typeof step.edit.kind !== "string"
+    ) {
+      throw new TaxonomyImportError(`curation.edits[${i}] must hold an edit`);
+    }
+    expectType(
+      step.description,
+      "string",
+      `curation.edits[${i}].description`,
+      false,
+    );
+    expectType(step.at, "string", `curation.edits[${i}].at`, false);
+  });
+  return value as unknown as CurationLog;
+}
+
+/**
+ * Parse and validate a previously exported JSON file.
+ */
+export function parseTaxonomyJson(json: string): ImportedTaxonomy {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (err) {
+    throw new TaxonomyImportError("File is not valid JSON");
+  }
+
+  // Legacy export: the bare tree without an envelope
+  if (isObject(data) && data.format === undefined && "name" in data) {
+    validateTaxonomyNode(data);
+    return {
+      source: { text: "", mode: "word", options: {} },
+      tree: data,
+      schemaVersion: 0,
+      warnings: [
+        "Older export without source text or options — only the tree was restored.",
+      ],
+    };
+  }
+
+  if (!isObject(data) || data.format !== TAXONOMY_FORMAT) {
+    throw new TaxonomyImportError("Not a TinyTaxonomy export");
+  }
+
+  const schemaVersion = data.schemaVersion;
+  if (
+    typeof schemaVersion !== "number" ||
+    !Number.isInteger(schemaVersion) ||
+    schemaVersion < 1
+  ) {
+    throw new TaxonomyImportError("schemaVersion must be a positive integer");
+  }
+
+  const warnings: string[] = [];
+  if (schemaVersion > TAXONOMY_SCHEMA_VERSION) {
+    warnings.push(
+      `File was written by a newer version (schema ${schemaVersion}); unknown fields were ignored.`,
+    );
+  }
+
+  if (typeof data.mode !== "string" || !MODES.includes(data.mode as Mode)) {
+    throw new TaxonomyImportError(`mode must be one of ${MODES.join(", ")}`);
+  }
+  expectType(data.text, "string", "text");
+  expectType(data.cutoff, "number", "cutoff");
+  const options = validateOptions(data.options, warnings);
+  validateTaxonomyNode(data.tree);
+
+  return {
+    source: {
+      text: (data.text as string | undefined) ?? "",
+      mode: data.mode as Mode,
+      options,
+    },
+    tree: data.tree,
+    schemaVersion,
+    linkage: validateLinkage(data.linkage),
+    cutoff: data.cutoff as number | undefined,
+    cut: validateCut(data.cut),
+    curation: validateCuration(data.curation),
+    warnings,
+  };
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { flattenAssignments, toDelimited, topLevelClusters } from "./flat";
+import {
+  analyseText,
+  clustersAtHeight,
+  mergeHeights,
+  recutTaxonomy,
+  toLinkage,
+} from "../pipeline";
+import type { TaxonomyNode } from "../types";
+
+const leaf = (index: number, text: string): TaxonomyNode => ({
+  name: text,
+  fullText: text,
+  index,
+  type: "leaf",
+});
+
+// Synthetic root over three top-level clusters, as the automatic cutoff makes
+const tree: TaxonomyNode = {
+  name: "root",
+  height: 0.9,
+  clusterLabel: "3 clusters",
+  children: [
+    {
+      name: "pets",
+      height: 0.6,
+      clusterLabel: "pets",
+      clusterKeywords: ["pet"],
+      children: [
+        {
+          name: "dogs",
+          height: 0.2,
+          clusterLabel: "dogs",
+          children: [leaf(0, "dog"), leaf(3, "puppy")],
+        },
+        leaf(1, "cat"),
+      ],
+    },
+    {
+      name: "fish",
+      height: 0.4,
+      clusterLabel: "fish",
+      children: [leaf(2, "trout"), leaf(4, 'salmon, "wild"')],
+    },
+    leaf(5, "rock"),
+  ],
+};
+
+const labels = (nodes: TaxonomyNode[]) =>
+  nodes.map((n) => n.clusterLabel ?? n.name);
+
+describe("topLevelClusters", () => {
+  it("is the top-level clusters, or a lone leaf", () => {
+    expect(labels(topLevelClusters(tree))).toEqual(["pets", "fish", "rock"]);
+    expect(labels(topLevelClusters(leaf(0, "alone")))).toEqual(["alone"]);
+  });
+});
+
+describe("flattenAssignments", () => {
+  it("assigns every leaf once, in index order, with its path", () => {
+    const rows = flattenAssignments(tree);
+    expect(rows.map((r) => [r.index, r.clusterId, r.clusterLabel])).toEqual([
+      [0, 1, "pets"],
+      [1, 1, "pets"],
+      [2, 2, "fish"],
+      [3, 1, "pets"],
+      [4, 2, "fish"],
+      [5, 3, "rock"],
+    ]);
+    expect(rows[3].path).toEqual(["3 clusters", "pets", "dogs"]);
+  });
+
+  it("quotes CSV fields and flattens TSV ones", () => {
+    const csv = toDelimited(tree, ",").trim().split("\n");
+    expect(csv[0]).toBe("index,text,cluster_id,cluster_label,keywords,path");
+    expect(csv[5]).toBe('4,"salmon, ""wild""",2,fish,,3 clusters > fish');
+    expect(csv).toHaveLength(7);
+    expect(toDelimited(tree, "\t").split("\n")[1]).toBe(
+      "0\tdog\t1\tpets\tpet\t3 clusters > pets > dogs",
+    );
+  });
+});
+
+describe("flat export of a re-cut dendrogram", () => {
+  // A low automatic cutoff leaves many top-level clusters
+  const analysis = analyseText(
+    "Cats purr on the sofa. Kittens purr in the sun. Dogs bark at the postman. Puppies bark at night. Trout swim upstream. Salmon swim to sea. Eagles fly over hills. Hawks fly over fields.",
+    "sentence",
+    { linkage: "average", cutoffPercentile: 0.3 },
+  );
+  const clusterCount = (tree: TaxonomyNode) =>
+    new Set(flattenAssignments(tree).map((row) => row.clusterId)).size;
+
+  it("gives cluster counts below and above the tree's top level", () => {
+    expect(topLevelClusters(analysis.tree).length).toBeGreaterThan(2);
+    for (const count of [2, 3, analysis.dendrogram.size]) {
+      expect(
+        clusterCount(recutTaxonomy(analysis, { by: "count", count })),
+      ).toBe(count);
+    }
+  });
+
+  it("cuts at heights above the automatic cutoff", () => {
+    const linkage = toLinkage(analysis.dendrogram);
+    // Below the root, where a single cluster would be the root itself
+    const heights = mergeHeights(linkage).filter(
+      (height) => height < analysis.dendrogram.height,
+    );
+    for (const height of heights.slice(-2)) {
+      expect(height).toBeGreaterThan(analysis.cutoff!);
+      const tree = recutTaxonomy(analysis, { by: "height", height });
+      expect(clusterCount(tree)).toBe(clustersAtHeight(linkage, height));
+      expect(flattenAssignments(tree)).toHaveLength(analysis.dendrogram.size);
+    }
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Flat cluster assignment export
+ *
+ * Writes one row per leaf with the top-level cluster it belongs to, so items
+ * can be tagged with their group in a spreadsheet. To export at a chosen
+ * merge height or cluster count, re-cut the dendrogram first
+ * (`recutTaxonomy`); the tree alone only keeps it below its cutoff.
+ */
+
+import type { TaxonomyNode } from "../types";
+import { childrenOf, displayName, isLeaf } from "./shared";
+
+export interface FlatAssignment {
+  index: number | undefined;
+  fullText: string;
+  clusterId: number;
+  clusterLabel: string;
+  keywords: string[];
+  // Labels of every cluster from the root down to the leaf's parent
+  path: string[];
+  // Source row columns (row mode)
+  metadata?: Record<string, string>;
+}
+
+export const FLAT_COLUMNS = [
+  "index",
+  "text",
+  "cluster_id",
+  "cluster_label",
+  "keywords",
+  "path",
+];
+
+/**
+ * The subtrees that form the flat partition: the top-level clusters.
+ */
+export function topLevelClusters(tree: TaxonomyNode): TaxonomyNode[] {
+  return isLeaf(tree) ? [tree] : childrenOf(tree);
+}
+
+/**
+ * One assignment per leaf, ordered by the leaf's original index.
+ */
+export function flattenAssignments(tree: TaxonomyNode): FlatAssignment[] {
+  const clusterOf = new Map<TaxonomyNode, number>();
+  topLevelClusters(tree).forEach((node, i) => clusterOf.set(node, i + 1));
+
+  const rows: FlatAssignment[] = [];
+  (function walk(
+    node: TaxonomyNode,
+    path: TaxonomyNode[],
+    cluster: TaxonomyNode | null,
+  ) {
+    const current = cluster ?? (clusterOf.has(node) ? node : null);
+    if (isLeaf(node)) {
+      const owner = current ?? node;
+      rows.push({
+        index: node.index,
+        fullText: node.fullText ?? node.name,
+        clusterId: clusterOf.get(owner) ?? 0,
+        clusterLabel: displayName(owner),
+        keywords: owner.clusterKeywords ?? [],
+        path: path.map(displayName),
+        metadata: node.metadata,
+      });
+      return;
+    }
+    for (const child of childrenOf(node)) walk(child, [...path, node], current);
+  })(tree, [], null);
+
+  return rows.sort((a, b) => (a.index ?? Infinity) - (b.index ?? Infinity));
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function tsvField(value: string): string {
+  return value.replace(/[\t\n\r]+/g, " ");
+}
+
+export function toDelimited(tree: TaxonomyNode, delimiter: "," | "\t"): string {
+  const field = delimiter === "," ? csvField : tsvField;
+  const rows = flattenAssignments(tree);
+
+  // Row-mode metadata columns follow the fixed columns
+  const metadataColumns = [
+    ...new Set(rows.flatMap((row) => Object.keys(row.metadata ?? {}))),
+  ];
+
+  const lines = [
+    [...FLAT_COLUMNS, ...metadataColumns].map(field).join(delimiter),
+  ];
+  for (const row of rows) {
+    lines.push(
+      [
+        row.index !== undefined ? String(row.index) : "",
+        row.fullText,
+        String(row.clusterId),
+        row.clusterLabel,
+        row.keywords.join("; "),
+        row.path.join(" > "),
+        ...metadataColumns.map((col) => row.metadata?.[col] ?? ""),
+      ]
+        .map(field)
+        .join(delimiter),
+    );
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,148 @@
+/**
+ * Export formats for a generated taxonomy.
+ *
+ * Each format serialises a TaxonomyNode tree to a string. The registry is
+ * shared by the UI download buttons and the command-line tool so both offer
+ * the same set of formats.
+ */
+
+import type { Mode, TaxonomyNode, WorkerOptions } from "../types";
+import type { DendrogramCut, DendrogramLinkage } from "../pipeline/cut";
+import type { CurationLog } from "../utils/curation";
+import { toNewick } from "./newick";
+import { toPhyloXml } from "./phyloxml";
+import { toSkosJsonLd, toSkosTurtle } from "./skos";
+import { toDelimited } from "./flat";
+import { createEnvelope } from "./envelope";
+
+export { toNewick, quoteNewickLabel, type NewickOptions } from "./newick";
+export { toPhyloXml } from "./phyloxml";
+export {
+  createEnvelope,
+  parseTaxonomyJson,
+  validateTaxonomyNode,
+  TaxonomyImportError,
+  TAXONOMY_FORMAT,
+  TAXONOMY_SCHEMA_VERSION,
+  type TaxonomyEnvelope,
+  type SavedLinkage,
+  type ImportedTaxonomy,
+} from "./envelope";
+export {
+  topLevelClusters,
+  flattenAssignments,
+  toDelimited,
+  FLAT_COLUMNS,
+  type FlatAssignment,
+} from "./flat";
+export {
+  toSkosScheme,
+  toSkosTurtle,
+  toSkosJsonLd,
+  normalizeBaseIri,
+  DEFAULT_BASE_IRI,
+} from "./skos";
+
+export interface ExportContext {
+  mode?: Mode;
+  options?: WorkerOptions;
+  // Source text, stored in the JSON envelope so sessions can be reopened
+  text?: string;
+  // Namespace for minted concept IRIs (SKOS formats)
+  baseIri?: string;
+  // The dendrogram behind the tree, its automatic cutoff and the cut shown
+  // (JSON envelope, so the cutoff slider comes back on import)
+  linkage?: DendrogramLinkage;
+  cutoff?: number;
+  dendrogramCut?: DendrogramCut;
+  // Hand edits of the tree (JSON envelope)
+  curation?: CurationLog;
+}
+
+export interface ExportFormat {
+  id: string;
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: (tree: TaxonomyNode, context?: ExportContext) => string;
+  // Whether the format uses `ExportContext.baseIri`
+  usesBaseIri?: boolean;
+  // Whether the format flattens the top-level clusters, so callers may
+  // re-cut the dendrogram first (`recutTaxonomy`)
+  usesCut?: boolean;
+}
+
+export const jsonFormat: ExportFormat = {
+  id: "json",
+  label: "JSON (re-importable)",
+  extension: "json",
+  mimeType: "application/json",
+  serialize: (tree, context = {}) =>
+    JSON.stringify(createEnvelope(tree, context), null, 2),
+};
+
+export const newickFormat: ExportFormat = {
+  id: "newick",
+  label: "Newick",
+  extension: "nwk",
+  mimeType: "text/plain",
+  serialize: (tree) => toNewick(tree),
+};
+
+export const phyloXmlFormat: ExportFormat = {
+  id: "phyloxml",
+  label: "PhyloXML",
+  extension: "xml",
+  mimeType: "application/xml",
+  serialize: (tree, context) => toPhyloXml(tree, context),
+};
+
+export const skosTurtleFormat: ExportFormat = {
+  id: "skos-turtle",
+  label: "SKOS (Turtle)",
+  extension: "ttl",
+  mimeType: "text/turtle",
+  serialize: (tree, context) => toSkosTurtle(tree, context),
+  usesBaseIri: true,
+};
+
+export const skosJsonLdFormat: ExportFormat = {
+  id: "skos-jsonld",
+  label: "SKOS (JSON-LD)",
+  extension: "jsonld",
+  mimeType: "application/ld+json",
+  serialize: (tree, context) => toSkosJsonLd(tree, context),
+  usesBaseIri: true,
+};
+
+export const csvFormat: ExportFormat = {
+  id: "csv",
+  label: "Cluster assignments (CSV)",
+  extension: "csv",
+  mimeType: "text/csv",
+  serialize: (tree) => toDelimited(tree, ","),
+  usesCut: true,
+};
+
+export const tsvFormat: ExportFormat = {
+  id: "tsv",
+  label: "Cluster assignments (TSV)",
+  extension: "tsv",
+  mimeType: "text/tab-separated-values",
+  serialize: (tree) => toDelimited(tree, "\t"),
+  usesCut: true,
+};
+
+export const exportFormats: Record<string, ExportFormat> = {
+  [jsonFormat.id]: jsonFormat,
+  [newickFormat.id]: newickFormat,
+  [phyloXmlFormat.id]: phyloXmlFormat,
+  [skosTurtleFormat.id]: skosTurtleFormat,
+  [skosJsonLdFormat.id]: skosJsonLdFormat,
+  [csvFormat.id]: csvFormat,
+  [tsvFormat.id]: tsvFormat,
+};
+
+export function getExportFormat(id: string): ExportFormat | undefined {
+  return exportFormats[id.toLowerCase()];
+}
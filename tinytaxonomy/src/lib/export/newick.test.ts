@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { cleanNewickKeyword, quoteNewickLabel, toNewick } from "./newick";
+import type { TaxonomyNode } from "../types";
+
+const leaf = (name: string): TaxonomyNode => ({
+  name,
+  fullText: name,
+  type: "leaf",
+});
+
+describe("toNewick", () => {
+  it("writes branch lengths from merge heights", () => {
+    const tree: TaxonomyNode = {
+      name: "root",
+      height: 0.8,
+      clusterLabel: "root",
+      children: [
+        {
+          name: "a",
+          height: 0.3,
+          clusterLabel: "pets",
+          children: [leaf("cat"), leaf("dog")],
+        },
+        leaf("fish"),
+      ],
+    };
+    expect(toNewick(tree, { annotations: false })).toBe(
+      "(('cat':0.3,'dog':0.3)'pets':0.5,'fish':0.8)'root';\n",
+    );
+  });
+
+  it("keeps annotation comments intact whatever the keywords hold", () => {
+    const tree: TaxonomyNode = {
+      name: "root",
+      height: 1,
+      clusterLabel: "root",
+      clusterKeywords: ["a]b", 'say "hi"', "(x, y);", "p|q", "[]"],
+      children: [leaf("one"), leaf("two")],
+    };
+    const newick = toNewick(tree);
+    expect(newick).toContain(`[&keywords="a b|say 'hi'|x y|p q"]`);
+    // The only brackets left open and close the comment itself
+    expect(newick.match(/[[\]]/g)).toEqual(["[", "]"]);
+  });
+
+  it("quotes labels by doubling single quotes", () => {
+    expect(quoteNewickLabel("it's  a\ntest")).toBe("'it''s a test'");
+    expect(cleanNewickKeyword("  ;; ")).toBe("");
+  });
+
+  it("writes an empty category as a bare label", () => {
+    const tree: TaxonomyNode = {
+      name: "root",
+      height: 1,
+      clusterLabel: "root",
+      children: [
+        leaf("one"),
+        { name: "empty", type: "cluster", clusterLabel: "Empty", children: [] },
+      ],
+    };
+    expect(toNewick(tree, { annotations: false })).toBe(
+      "('one':1,'Empty':1)'root';\n",
+    );
+  });
+});
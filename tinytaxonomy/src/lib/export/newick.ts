@@ -0,0 +1,72 @@
+/**
+ * Newick export
+ *
+ * Writes the tree in the parenthesised Newick format read by most dendrogram
+ * and phylogeny tools (ape/phytools in R, Bio.Phylo and scipy in Python,
+ * FigTree, iTOL). Branch lengths are the differences between merge heights,
+ * so the exported tree is ultrametric like the original dendrogram. Cluster
+ * labels and leaf texts become quoted node names; cluster keywords are kept
+ * as `[&keywords="..."]` comments that FigTree and `treeio` understand.
+ */
+
+import type { TaxonomyNode } from "../types";
+import { branchLength, childrenOf, displayName, formatNumber } from "./shared";
+
+export interface NewickOptions {
+  // Include `[&keywords=...]` annotations on clusters (default: true)
+  annotations?: boolean;
+}
+
+/**
+ * Quote a Newick label. Single quotes are escaped by doubling them.
+ */
+export function quoteNewickLabel(label: string): string {
+  const clean = label.replace(/\s+/g, " ").trim();
+  return `'${clean.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Clean a keyword for a `[&keywords="a|b"]` comment. Inside a comment the
+ * label quoting does not apply, and FigTree and treeio end the comment at the
+ * first `]` wherever it is, so brackets and the other Newick delimiters are
+ * dropped, `|` (the keyword separator) too, and double quotes become single.
+ */
+export function cleanNewickKeyword(keyword: string): string {
+  return keyword
+    .replace(/"/g, "'")
+    .replace(/[[\](),;:|]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function toNewick(
+  tree: TaxonomyNode,
+  options: NewickOptions = {},
+): string {
+  const { annotations = true } = options;
+
+  function write(node: TaxonomyNode, parent: TaxonomyNode | null): string {
+    let out = "";
+    if (childrenOf(node).length > 0) {
+      out +=
+        "(" +
+        childrenOf(node)
+          .map((c) => write(c, node))
+          .join(",") +
+        ")";
+    }
+    out += quoteNewickLabel(displayName(node));
+    const keywords = annotations
+      ? (node.clusterKeywords ?? []).map(cleanNewickKeyword).filter(Boolean)
+      : [];
+    if (keywords.length) {
+      out += `[&keywords="${keywords.join("|")}"]`;
+    }
+    if (parent) {
+      out += ":" + formatNumber(branchLength(parent, node));
+    }
+    return out;
+  }
+
+  return write(tree, null) + ";\n";
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { toPhyloXml } from "./phyloxml";
+import type { TaxonomyNode } from "../types";
+
+describe("toPhyloXml", () => {
+  it("writes one clade per node with branch lengths and typed properties", () => {
+    const tree: TaxonomyNode = {
+      id: 0,
+      name: "root",
+      height: 0.8,
+      clusterLabel: "Animals",
+      children: [
+        { id: 1, name: "fish", fullText: "fish", index: 2, type: "leaf" },
+        {
+          id: 2,
+          name: "a",
+          height: 0.1 + 0.2,
+          clusterKeywords: ["purr", "bark"],
+          children: [{ name: "cat", fullText: "cat", index: 0, type: "leaf" }],
+        },
+      ],
+    };
+    expect(toPhyloXml(tree, { mode: "word" })).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        '<phyloxml xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.phyloxml.org http://www.phyloxml.org/1.20/phyloxml.xsd" xmlns="http://www.phyloxml.org">\n' +
+        '  <phylogeny rooted="true">\n' +
+        "    <name>TinyTaxonomy</name>\n" +
+        "    <description>TinyTaxonomy word-mode taxonomy</description>\n" +
+        "    <clade>\n" +
+        "      <name>Animals</name>\n" +
+        "      <node_id>0</node_id>\n" +
+        '      <property ref="tinytaxonomy:height" datatype="xsd:double" applies_to="clade">0.8</property>\n' +
+        "      <clade>\n" +
+        "        <name>fish</name>\n" +
+        "        <branch_length>0.8</branch_length>\n" +
+        "        <node_id>1</node_id>\n" +
+        '        <property ref="tinytaxonomy:index" datatype="xsd:integer" applies_to="clade">2</property>\n' +
+        '        <property ref="tinytaxonomy:fullText" datatype="xsd:string" applies_to="clade">fish</property>\n' +
+        "      </clade>\n" +
+        "      <clade>\n" +
+        "        <name>purr / bark</name>\n" +
+        "        <branch_length>0.5</branch_length>\n" +
+        "        <node_id>2</node_id>\n" +
+        '        <property ref="tinytaxonomy:height" datatype="xsd:double" applies_to="clade">0.3</property>\n' +
+        '        <property ref="tinytaxonomy:keywords" datatype="xsd:string" applies_to="clade">purr, bark</property>\n' +
+        "        <clade>\n" +
+        "          <name>cat</name>\n" +
+        "          <branch_length>0.3</branch_length>\n" +
+        '          <property ref="tinytaxonomy:index" datatype="xsd:integer" applies_to="clade">0</property>\n' +
+        '          <property ref="tinytaxonomy:fullText" datatype="xsd:string" applies_to="clade">cat</property>\n' +
+        "        </clade>\n" +
+        "      </clade>\n" +
+        "    </clade>\n" +
+        "  </phylogeny>\n" +
+        "</phyloxml>\n",
+    );
+  });
+
+  it("escapes markup in names and properties", () => {
+    const text = `Tom & Jerry's <"chase">`;
+    const xml = toPhyloXml({
+      name: "root",
+      children: [{ name: text, fullText: text }],
+    });
+    expect(xml).toContain(
+      "<name>Tom &amp; Jerry&apos;s &lt;&quot;chase&quot;&gt;</name>",
+    );
+    expect(xml).not.toContain(text);
+  });
+
+  it("keeps an empty category as a clade without children", () => {
+    const xml = toPhyloXml({
+      name: "root",
+      height: 1,
+      children: [
+        {
+          id: 5,
+          name: "new",
+          clusterLabel: "New",
+          type: "cluster",
+          children: [],
+        },
+      ],
+    });
+    expect(xml).toContain(
+      "        <name>New</name>\n        <branch_length>1</branch_length>\n        <node_id>5</node_id>\n      </clade>\n",
+    );
+  });
+});
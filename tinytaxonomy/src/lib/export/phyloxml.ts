@@ -0,0 +1,86 @@
+/**
+ * PhyloXML export
+ *
+ * Produces a rooted phylogeny (http://www.phyloxml.org) with one `clade` per
+ * node. Names carry the cluster label or leaf text, branch lengths come from
+ * merge heights, and the remaining TinyTaxonomy fields (merge height,
+ * keywords, full text, original index) are kept as typed `property` elements.
+ */
+
+import type { TaxonomyNode } from "../types";
+import type { ExportContext } from "./index";
+import {
+  branchLength,
+  childrenOf,
+  displayName,
+  escapeXml,
+  formatNumber,
+  isLeaf,
+} from "./shared";
+
+function property(
+  ref: string,
+  datatype: string,
+  value: string | number,
+  indent: string,
+): string {
+  return `${indent}<property ref="tinytaxonomy:${ref}" datatype="xsd:${datatype}" applies_to="clade">${escapeXml(String(value))}</property>\n`;
+}
+
+export function toPhyloXml(
+  tree: TaxonomyNode,
+  context: ExportContext = {},
+): string {
+  function writeClade(
+    node: TaxonomyNode,
+    parent: TaxonomyNode | null,
+    depth: number,
+  ): string {
+    const pad = "  ".repeat(depth);
+    const inner = pad + "  ";
+    let out = `${pad}<clade>\n`;
+    out += `${inner}<name>${escapeXml(displayName(node))}</name>\n`;
+    if (parent)
+      out += `${inner}<branch_length>${formatNumber(branchLength(parent, node))}</branch_length>\n`;
+    if (node.id !== undefined) out += `${inner}<node_id>${node.id}</node_id>\n`;
+
+    if (isLeaf(node)) {
+      if (node.index !== undefined)
+        out += property("index", "integer", node.index, inner);
+      if (node.fullText)
+        out += property("fullText", "string", node.fullText, inner);
+    } else {
+      if (typeof node.height === "number")
+        out += property("height", "double", formatNumber(node.height), inner);
+      if (node.clusterKeywords && node.clusterKeywords.length) {
+        out += property(
+          "keywords",
+          "string",
+          node.clusterKeywords.join(", "),
+          inner,
+        );
+      }
+      for (const child of childrenOf(node))
+        out += writeClade(child, node, depth + 1);
+    }
+
+    return out + `${pad}</clade>\n`;
+  }
+
+  const description = context.mode
+    ? `TinyTaxonomy ${context.mode}-mode taxonomy`
+    : "TinyTaxonomy taxonomy";
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<phyloxml xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ' +
+    'xsi:schemaLocation="http://www.phyloxml.org http://www.phyloxml.org/1.20/phyloxml.xsd" ' +
+    'xmlns="http://www.phyloxml.org">\n' +
+    '  <phylogeny rooted="true">\n' +
+    "    <name>TinyTaxonomy</name>\n" +
+    `    <description>${escapeXml(description)}</description>\n` +
+    writeClade(tree, null, 2) +
+    "  </phylogeny>\n" +
+    "</phyloxml>\n"
+  );
+}
@@ -0,0 +1,55 @@
+import type { TaxonomyNode } from "../types";
+
+/**
+ * Children of a node regardless of whether it is collapsed in the UI.
+ */
+export function childrenOf(node: TaxonomyNode): TaxonomyNode[] {
+  return node.children ?? node._children ?? [];
+}
+
+// Empty categories made while curating are clusters without children
+export function isLeaf(node: TaxonomyNode): boolean {
+  return childrenOf(node).length === 0 && node.type !== "cluster";
+}
+
+/**
+ * Human-readable name for a node: the cluster label for clusters, the full
+ * text for leaves.
+ */
+export function displayName(node: TaxonomyNode): string {
+  if (isLeaf(node)) return node.fullText ?? node.name;
+  return node.clusterLabel ?? node.clusterKeywords?.join(" / ") ?? node.name;
+}
+
+/**
+ * Merge height of a node; leaves sit at height 0.
+ */
+export function nodeHeight(node: TaxonomyNode): number {
+  return isLeaf(node) ? 0 : (node.height ?? 0);
+}
+
+/**
+ * Length of the branch from `parent` to `child`, derived from merge heights.
+ */
+export function branchLength(
+  parent: TaxonomyNode,
+  child: TaxonomyNode,
+): number {
+  return Math.max(0, nodeHeight(parent) - nodeHeight(child));
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Format a number without trailing float noise (e.g. 0.30000000000000004).
+ */
+export function formatNumber(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_BASE_IRI,
+  normalizeBaseIri,
+  toSkosJsonLd,
+  toSkosScheme,
+  toSkosTurtle,
+} from "./skos";
+import type { TaxonomyNode } from "../types";
+
+const leaf = (name: string, fullText = name): TaxonomyNode => ({
+  name,
+  fullText,
+  type: "leaf",
+});
+
+const LONG_TEXT =
+  "Cats purr on the sofa all afternoon while the dogs bark at every passing postman outside.";
+
+// A keyword-less cutoff root over two clusters whose leaves share a slug
+const tree: TaxonomyNode = {
+  id: 0,
+  name: "root",
+  children: [
+    {
+      id: 1,
+      name: "a",
+      clusterLabel: "Pets",
+      clusterKeywords: ["Pets", "purr", "bark"],
+      children: [leaf("Cat"), leaf("cat!")],
+    },
+    {
+      id: 2,
+      name: "b",
+      clusterLabel: 'Say "hi"',
+      children: [leaf("Cats purr...", LONG_TEXT)],
+    },
+  ],
+};
+
+describe("toSkosScheme", () => {
+  it("folds a keyword-less root into the scheme and mints unique IRIs", () => {
+    const scheme = toSkosScheme(tree, {
+      mode: "word",
+      baseIri: "https://example.com/vocab",
+    });
+    expect(scheme.iri).toBe("https://example.com/vocab/scheme");
+    expect(scheme.title).toBe("TinyTaxonomy word-mode taxonomy");
+    expect(scheme.topConcepts).toEqual([
+      "https://example.com/vocab/cluster-1",
+      "https://example.com/vocab/cluster-2",
+    ]);
+    expect(
+      scheme.concepts.map((c) =>
+        c.iri.slice("https://example.com/vocab/".length),
+      ),
+    ).toEqual([
+      "cluster-1",
+      "cat",
+      "cat-2",
+      "cluster-2",
+      "cats-purr-on-the-sofa-all-afternoon-while-the-do",
+    ]);
+    expect(scheme.concepts[0]).toMatchObject({
+      prefLabel: "Pets",
+      altLabels: ["purr", "bark"],
+      topConcept: true,
+    });
+    expect(scheme.concepts[0].narrower).toEqual([
+      scheme.concepts[1].iri,
+      scheme.concepts[2].iri,
+    ]);
+    expect(scheme.concepts[1]).toMatchObject({
+      broader: scheme.concepts[0].iri,
+      topConcept: false,
+      narrower: [],
+    });
+  });
+
+  it("labels long leaf texts by their short name and keeps the text as a note", () => {
+    const concept = toSkosScheme(tree).concepts[4];
+    expect(concept.prefLabel).toBe("Cats purr...");
+    expect(concept.note).toBe(LONG_TEXT);
+  });
+
+  it("keeps a root with keywords as the single top concept", () => {
+    const scheme = toSkosScheme({
+      ...tree,
+      clusterLabel: "All",
+      clusterKeywords: ["all"],
+    });
+    expect(scheme.topConcepts).toEqual([DEFAULT_BASE_IRI + "cluster-0"]);
+    expect(scheme.concepts).toHaveLength(6);
+  });
+});
+
+describe("normalizeBaseIri", () => {
+  it("defaults, appends a separator and rejects relative or spaced IRIs", () => {
+    expect(normalizeBaseIri()).toBe(DEFAULT_BASE_IRI);
+    expect(normalizeBaseIri("  ")).toBe(DEFAULT_BASE_IRI);
+    expect(normalizeBaseIri("urn:x-taxonomy:pets")).toBe(
+      "urn:x-taxonomy:pets/",
+    );
+    expect(normalizeBaseIri("https://example.com/vocab#")).toBe(
+      "https://example.com/vocab#",
+    );
+    expect(() => normalizeBaseIri("vocab/pets")).toThrow(/Invalid base IRI/);
+    expect(() => normalizeBaseIri("https://example.com/my vocab")).toThrow(
+      /Invalid base IRI/,
+    );
+  });
+});
+
+describe("SKOS serializations", () => {
+  it("writes Turtle with escaped literals and both hierarchy directions", () => {
+    const turtle = toSkosTurtle(tree);
+    expect(turtle).toContain(
+      `<${DEFAULT_BASE_IRI}scheme> a skos:ConceptScheme ;`,
+    );
+    expect(turtle).toContain(
+      `skos:hasTopConcept <${DEFAULT_BASE_IRI}cluster-1>, <${DEFAULT_BASE_IRI}cluster-2> .`,
+    );
+    expect(turtle).toContain('skos:prefLabel "Say \\"hi\\""@en');
+    expect(turtle).toContain('skos:altLabel "purr"@en, "bark"@en');
+    expect(turtle).toContain(`skos:broader <${DEFAULT_BASE_IRI}cluster-1>`);
+    // One statement per concept and one for the scheme
+    expect(turtle.match(/ a skos:Concept ;/g)).toHaveLength(5);
+  });
+
+  it("writes JSON-LD with the same graph", () => {
+    const jsonLd = JSON.parse(toSkosJsonLd(tree));
+    expect(jsonLd["@context"]).toEqual({
+      skos: "http://www.w3.org/2004/02/skos/core#",
+      dct: "http://purl.org/dc/terms/",
+    });
+    const [scheme, ...concepts] = jsonLd["@graph"];
+    expect(scheme["skos:hasTopConcept"]).toEqual([
+      { "@id": DEFAULT_BASE_IRI + "cluster-1" },
+      { "@id": DEFAULT_BASE_IRI + "cluster-2" },
+    ]);
+    expect(concepts).toHaveLength(5);
+    expect(concepts[0]).toEqual({
+      "@id": DEFAULT_BASE_IRI + "cluster-1",
+      "@type": "skos:Concept",
+      "skos:inScheme": { "@id": DEFAULT_BASE_IRI + "scheme" },
+      "skos:prefLabel": { "@value": "Pets", "@language": "en" },
+      "skos:altLabel": [
+        { "@value": "purr", "@language": "en" },
+        { "@value": "bark", "@language": "en" },
+      ],
+      "skos:topConceptOf": { "@id": DEFAULT_BASE_IRI + "scheme" },
+      "skos:narrower": [
+        { "@id": DEFAULT_BASE_IRI + "cat" },
+        { "@id": DEFAULT_BASE_IRI + "cat-2" },
+      ],
+    });
+    expect(concepts[4]["skos:note"]).toEqual({
+      "@value": LONG_TEXT,
+      "@language": "en",
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * SKOS export
+ *
+ * Turns the taxonomy into a SKOS ConceptScheme for thesaurus and ontology
+ * tools (VocBench, PoolParty, Protégé, Skosmos). Clusters become
+ * `skos:Concept`s labelled with `clusterLabel`, their keywords become
+ * `skos:altLabel`s, and leaves (words in word mode) become narrower concepts.
+ * A synthetic root without keywords (the cutoff root) is folded into the
+ * scheme itself, so its children become the top concepts.
+ */
+
+import type { TaxonomyNode } from "../types";
+import type { ExportContext } from "./index";
+import { childrenOf, isLeaf } from "./shared";
+
+export const DEFAULT_BASE_IRI = "https://example.org/tinytaxonomy/";
+
+const SKOS = "http://www.w3.org/2004/02/skos/core#";
+const DCT = "http://purl.org/dc/terms/";
+
+export interface SkosConcept {
+  iri: string;
+  prefLabel: string;
+  altLabels: string[];
+  note?: string;
+  broader?: string;
+  narrower: string[];
+  topConcept: boolean;
+}
+
+export interface SkosScheme {
+  iri: string;
+  title: string;
+  topConcepts: string[];
+  concepts: SkosConcept[];
+}
+
+/**
+ * Validate a user-supplied base IRI and make sure it ends in `/` or `#` so
+ * local names can be appended.
+ */
+export function normalizeBaseIri(baseIri?: string): string {
+  const iri = (baseIri ?? "").trim() || DEFAULT_BASE_IRI;
+  if (!/^[a-z][a-z0-9+.-]*:[^\s<>"{}|\\^`]*$/i.test(iri)) {
+    throw new Error(
+      `Invalid base IRI "${iri}" — expected an absolute IRI such as ${DEFAULT_BASE_IRI}`,
+    );
+  }
+  return /[/#]$/.test(iri) ? iri : iri + "/";
+}
+
+function slugify(text: string): string {
+  const slug = text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 48);
+  return slug || "concept";
+}
+
+/**
+ * Build the SKOS concept graph for a taxonomy tree.
+ */
+export function toSkosScheme(
+  tree: TaxonomyNode,
+  context: ExportContext = {},
+): SkosScheme {
+  const base = normalizeBaseIri(context.baseIri);
+  const concepts: SkosConcept[] = [];
+  // 'scheme' is reserved for the ConceptScheme itself
+  const usedNames = new Set<string>(["scheme"]);
+
+  function mint(name: string): string {
+    let local = name;
+    for (let n = 2; usedNames.has(local); n++) local = `${name}-${n}`;
+    usedNames.add(local);
+    return base + local;
+  }
+
+  function visit(node: TaxonomyNode, broader: string | undefined): string {
+    const leaf = isLeaf(node);
+    const text = leaf
+      ? (node.fullText ?? node.name)
+      : (node.clusterLabel ?? node.name);
+    const iri = leaf
+      ? mint(slugify(text))
+      : mint(`cluster-${node.id ?? concepts.length + 1}`);
+
+    const concept: SkosConcept = {
+      iri,
+      // Long leaf texts (sentence/paragraph mode) keep their truncated
+      // name as the label and the full text as a note
+      prefLabel: leaf && text.length > 80 ? node.name : text,
+      altLabels: (node.clusterKeywords ?? []).filter((k) => k && k !== text),
+      note: leaf && text.length > 80 ? text : undefined,
+      broader,
+      narrower: [],
+      topConcept: broader === undefined,
+    };
+    concepts.push(concept);
+
+    for (const child of childrenOf(node)) {
+      concept.narrower.push(visit(child, iri));
+    }
+    return iri;
+  }
+
+  // Fold a keyword-less root (e.g. the cutoff root) into the scheme itself
+  const foldRoot =
+    !isLeaf(tree) && !(tree.clusterKeywords && tree.clusterKeywords.length);
+  const topConcepts = foldRoot
+    ? childrenOf(tree).map((child) => visit(child, undefined))
+    : [visit(tree, undefined)];
+
+  const title = context.mode
+    ? `TinyTaxonomy ${context.mode}-mode taxonomy`
+    : "TinyTaxonomy taxonomy";
+
+  return { iri: base + "scheme", title, topConcepts, concepts };
+}
+
+function turtleString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")
+    .replace(/\t/g, "\\t");
+  return `"${escaped}"@en`;
+}
+
+export function toSkosTurtle(
+  tree: TaxonomyNode,
+  context: ExportContext = {},
+): string {
+  const scheme = toSkosScheme(tree, context);
+  const iri = (value: string) => `<${value}>`;
+
+  let out = `@prefix skos: <${SKOS}> .\n@prefix dct: <${DCT}> .\n\n`;
+
+  out += `${iri(scheme.iri)} a skos:ConceptScheme ;\n`;
+  out += `    dct:title ${turtleString(scheme.title)}`;
+  if (scheme.topConcepts.length) {
+    out += ` ;\n    skos:hasTopConcept ${scheme.topConcepts.map(iri).join(", ")}`;
+  }
+  out += " .\n";
+
+  for (const c of scheme.concepts) {
+    const lines = [
+      `skos:inScheme ${iri(scheme.iri)}`,
+      `skos:prefLabel ${turtleString(c.prefLabel)}`,
+    ];
+    if (c.altLabels.length)
+      lines.push(`skos:altLabel ${c.altLabels.map(turtleString).join(", ")}`);
+    if (c.note) lines.push(`skos:note ${turtleString(c.note)}`);
+    if (c.topConcept) lines.push(`skos:topConceptOf ${iri(scheme.iri)}`);
+    if (c.broader) lines.push(`skos:broader ${iri(c.broader)}`);
+    if (c.narrower.length)
+      lines.push(`skos:narrower ${c.narrower.map(iri).join(", ")}`);
+
+    out += `\n${iri(c.iri)} a skos:Concept ;\n    ${lines.join(" ;\n    ")} .\n`;
+  }
+
+  return out;
+}
+
+export function toSkosJsonLd(
+  tree: TaxonomyNode,
+  context: ExportContext = {},
+): string {
+  const scheme = toSkosScheme(tree, context);
+  const label = (value: string) => ({ "@value": value, "@language": "en" });
+  const ref = (value: string) => ({ "@id": value });
+
+  const graph: Record<string, unknown>[] = [
+    {
+      "@id": scheme.iri,
+      "@type": "skos:ConceptScheme",
+      "dct:title": label(scheme.title),
+      "skos:hasTopConcept": scheme.topConcepts.map(ref),
+    },
+    ...scheme.concepts.map((c) => {
+      const node: Record<string, unknown> = {
+        "@id": c.iri,
+        "@type": "skos:Concept",
+        "skos:inScheme": ref(scheme.iri),
+        "skos:prefLabel": label(c.prefLabel),
+      };
+      if (c.altLabels.length) node["skos:altLabel"] = c.altLabels.map(label);
+      if (c.note) node["skos:note"] = label(c.note);
+      if (c.topConcept) node["skos:topConceptOf"] = ref(scheme.iri);
+      if (c.broader) node["skos:broader"] = ref(c.broader);
+      if (c.narrower.length) node["skos:narrower"] = c.narrower.map(ref);
+      return node;
+    }),
+  ];
+
+  return JSON.stringify(
+    { "@context": { skos: SKOS, dct: DCT }, "@graph": graph },
+    null,
+    2,
+  );
+}
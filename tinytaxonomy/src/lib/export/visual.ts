@@ -0,0 +1,307 @@
+/**
+ * Vector exports of the rendered visualisations (SVG and PDF).
+ *
+ * Works on any SVG rendered by `TaxonomyTree` or `WordCloud`: the live SVG is
+ * cloned with its computed styles inlined, the zoom/pan transform is dropped
+ * and the canvas is resized to the full extent of the drawing (with the
+ * legend placed underneath), so the result is self-contained and unclipped.
+ * Browser-only — kept out of `./index` so the CLI does not pull in the DOM.
+ *
+ * Fonts: `embedFonts` copies the page's `@font-face` web fonts into the SVG
+ * as data URIs. Installed system fonts (the word cloud's Impact, the generic
+ * sans-serif fallback) have no file the page can read, so an SVG using them
+ * still depends on the viewer's machine. PDFs draw text with the standard
+ * PDF fonts (Helvetica, Times, Courier), which every reader has.
+ */
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const PADDING = 24;
+
+// Presentation properties copied from the computed style of every element
+const STYLE_PROPERTIES = [
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-width",
+  "stroke-opacity",
+  "stroke-dasharray",
+  "opacity",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "font-style",
+  "text-anchor",
+  "dominant-baseline",
+  "visibility",
+];
+
+export type ImageFormat = "png" | "svg" | "pdf";
+
+export const IMAGE_FORMATS: { id: ImageFormat; label: string }[] = [
+  { id: "png", label: "PNG" },
+  { id: "svg", label: "SVG (vector)" },
+  { id: "pdf", label: "PDF (print)" },
+];
+
+export interface VectorSvg {
+  svg: SVGSVGElement;
+  width: number;
+  height: number;
+}
+
+function inlineStyles(source: Element, target: Element) {
+  const computed = window.getComputedStyle(source);
+  const declarations: string[] = [];
+  for (const prop of STYLE_PROPERTIES) {
+    const value = computed.getPropertyValue(prop);
+    if (value) declarations.push(`${prop}:${value}`);
+  }
+  // Drop utility classes so the copy does not depend on the app stylesheet
+  target.removeAttribute("class");
+  target.setAttribute("style", declarations.join(";"));
+
+  const sourceChildren = source.children;
+  const targetChildren = target.children;
+  for (let i = 0; i < sourceChildren.length && i < targetChildren.length; i++) {
+    inlineStyles(sourceChildren[i], targetChildren[i]);
+  }
+}
+
+/**
+ * Build a standalone copy of a rendered SVG covering its whole drawing.
+ * Must be called while `source` is attached and visible (styles and bounding
+ * boxes are read from the live element).
+ */
+export function buildVectorSvg(source: SVGSVGElement): VectorSvg {
+  const clone = source.cloneNode(true) as SVGSVGElement;
+  inlineStyles(source, clone);
+
+  const groups = Array.from(source.children).filter(
+    (el): el is SVGGElement => el instanceof SVGGElement,
+  );
+  const cloneGroups = Array.from(clone.children).filter(
+    (el): el is SVGGElement => el instanceof SVGGElement,
+  );
+
+  // Stack the drawing(s) first and any legend underneath
+  const ordered = groups
+    .map((el, i) => ({
+      el,
+      copy: cloneGroups[i],
+      legend: el.classList.contains("taxonomy-legend"),
+    }))
+    .sort((a, b) => Number(a.legend) - Number(b.legend));
+
+  let y = PADDING;
+  let width = 0;
+  for (const { el, copy } of ordered) {
+    let box: DOMRect;
+    try {
+      box = el.getBBox();
+    } catch (err) {
+      continue;
+    }
+    if (!box.width && !box.height) continue;
+    // getBBox is in the group's own coordinates, so replacing its
+    // transform also removes the current zoom/pan
+    copy.setAttribute(
+      "transform",
+      `translate(${PADDING - box.x},${y - box.y})`,
+    );
+    y += box.height + PADDING;
+    width = Math.max(width, box.width);
+  }
+
+  width = Math.ceil(width + PADDING * 2);
+  const height = Math.ceil(y);
+
+  clone.setAttribute("xmlns", SVG_NS);
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+  clone.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  clone.setAttribute("style", "background:#ffffff");
+
+  const background = document.createElementNS(SVG_NS, "rect");
+  background.setAttribute("width", "100%");
+  background.setAttribute("height", "100%");
+  background.setAttribute("fill", "#ffffff");
+  clone.insertBefore(background, clone.firstChild);
+
+  return { svg: clone, width, height };
+}
+
+function unquote(family: string): string {
+  return family
+    .trim()
+    .replace(/^["']|["']$/g, "")
+    .toLowerCase();
+}
+
+function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Replace the url(...) sources of an @font-face rule with data URIs
+async function inlineFontSources(css: string, base: string): Promise<string> {
+  let out = css;
+  for (const [match, , url] of css.matchAll(/url\((["']?)([^"')]+)\1\)/g)) {
+    if (url.startsWith("data:")) continue;
+    const response = await fetch(new URL(url, base));
+    if (!response.ok)
+      throw new Error(`Could not load font ${url} (${response.status})`);
+    out = out.replace(
+      match,
+      `url("${await readAsDataUrl(await response.blob())}")`,
+    );
+  }
+  return out;
+}
+
+/**
+ * Embed the `@font-face` fonts the drawing uses, as data URIs in a `<style>`
+ * element, so the SVG renders the same without the app's font files.
+ * Returns the families that were embedded.
+ */
+export async function embedFonts(vector: VectorSvg): Promise<string[]> {
+  const used = new Set<string>();
+  vector.svg.querySelectorAll<SVGElement>("[style]").forEach((el) => {
+    el.style.fontFamily
+      .split(",")
+      .forEach((family) => used.add(unquote(family)));
+  });
+
+  const rules: string[] = [];
+  const embedded = new Set<string>();
+  for (const sheet of Array.from(document.styleSheets)) {
+    let cssRules: CSSRuleList;
+    try {
+      cssRules = sheet.cssRules;
+    } catch (err) {
+      continue; // cross-origin style sheets cannot be read
+    }
+    for (const rule of Array.from(cssRules)) {
+      if (!(rule instanceof CSSFontFaceRule)) continue;
+      const family = unquote(rule.style.getPropertyValue("font-family"));
+      if (!used.has(family)) continue;
+      rules.push(
+        await inlineFontSources(rule.cssText, sheet.href ?? document.baseURI),
+      );
+      embedded.add(family);
+    }
+  }
+
+  if (rules.length) {
+    const style = document.createElementNS(SVG_NS, "style");
+    style.textContent = rules.join("\n");
+    vector.svg.insertBefore(style, vector.svg.firstChild);
+  }
+  return [...embedded];
+}
+
+export function serializeSvg(svg: SVGSVGElement): string {
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n' +
+    new XMLSerializer().serializeToString(svg)
+  );
+}
+
+// Shapes and text a page slice may leave out
+const DRAWN_ELEMENTS =
+  "path, line, polyline, polygon, rect, circle, ellipse, text, image";
+
+/**
+ * Copy of an attached SVG showing only the band from `top` to `bottom` (in
+ * its own units): the view box is narrowed to the band and every shape or
+ * text wholly outside it is left out.
+ */
+function sliceSvg(
+  svg: SVGSVGElement,
+  width: number,
+  top: number,
+  bottom: number,
+): SVGSVGElement {
+  const slice = svg.cloneNode(true) as SVGSVGElement;
+  const origin = svg.getBoundingClientRect().top;
+  const drawn = svg.querySelectorAll(DRAWN_ELEMENTS);
+  const copies = slice.querySelectorAll(DRAWN_ELEMENTS);
+  drawn.forEach((el, i) => {
+    if (el.parentNode === svg && el.tagName === "rect") return; // page background
+    const box = el.getBoundingClientRect();
+    if (box.bottom - origin < top || box.top - origin > bottom)
+      copies[i].remove();
+  });
+  slice.setAttribute("viewBox", `0 ${top} ${width} ${bottom - top}`);
+  slice.setAttribute("height", String(bottom - top));
+  return slice;
+}
+
+/**
+ * Render a vector SVG into a paginated PDF. The drawing is scaled to the
+ * page width and split across as many pages as its height needs; a drawing
+ * wider than it is tall uses landscape pages. Each page carries only its own
+ * slice of the drawing, clipped to the printable area.
+ */
+export async function buildPdf(
+  vector: VectorSvg,
+  pageFormat: "a4" | "letter" = "a4",
+): Promise<Blob> {
+  const { jsPDF } = await import("jspdf");
+  await import("svg2pdf.js");
+
+  const orientation = vector.width > vector.height ? "landscape" : "portrait";
+  const doc = new jsPDF({ orientation, unit: "pt", format: pageFormat });
+  const margin = 28;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const printableWidth = pageWidth - margin * 2;
+  const printableHeight = pageHeight - margin * 2;
+
+  // Never enlarge small drawings beyond their natural size
+  const scale = Math.min(1, printableWidth / vector.width);
+  const drawnWidth = vector.width * scale;
+  const pages = Math.max(
+    1,
+    Math.ceil((vector.height * scale) / printableHeight),
+  );
+
+  // svg2pdf and the slicing read layout from the DOM, so attach the copies
+  // off-screen while drawing
+  const host = document.createElement("div");
+  host.style.cssText = "position:fixed;left:-100000px;top:0;visibility:hidden";
+  host.appendChild(vector.svg);
+  document.body.appendChild(host);
+  try {
+    const sliceHeight = printableHeight / scale;
+    for (let page = 0; page < pages; page++) {
+      if (page > 0) doc.addPage(pageFormat, orientation);
+      const top = page * sliceHeight;
+      const bottom = Math.min(vector.height, top + sliceHeight);
+      const slice = sliceSvg(vector.svg, vector.width, top, bottom);
+      host.appendChild(slice);
+      doc.saveGraphicsState();
+      doc.rect(margin, margin, drawnWidth, (bottom - top) * scale, null);
+      doc.clip();
+      doc.discardPath();
+      try {
+        await doc.svg(slice, {
+          x: margin,
+          y: margin,
+          width: drawnWidth,
+          height: (bottom - top) * scale,
+        });
+      } finally {
+        doc.restoreGraphicsState();
+        host.removeChild(slice);
+      }
+    }
+  } finally {
+    document.body.removeChild(host);
+  }
+
+  return doc.output("blob");
+}
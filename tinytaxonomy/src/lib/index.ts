@@ -1 +1,148 @@
 // place files you want to import through the `$lib` alias in this folder.
+export {
+  buildTaxonomy,
+  analyseText,
+  analyseTextAsync,
+  recutTaxonomy,
+  classifyTexts,
+  projectLsa,
+  applyEmbeddings,
+  buildTree,
+  clusterMatrix,
+  agnes,
+  diana,
+  segmentText,
+  segmentRows,
+  calculateVectors,
+  calculateDistanceMatrix,
+  calculateSimilarityMatrix,
+  calculateSegmentVectors,
+  calculateSegmentSimilarityMatrix,
+  calculateEnhancedSegmentVectors,
+  calculateEnhancedSegmentSimilarityMatrix,
+  calculateWordVectors,
+  calculateWordSimilarityMatrix,
+  approximateCluster,
+  miniBatchKMeans,
+  shouldApproximate,
+  toEnhancedPipelineOptions,
+  collectHeights,
+  computeEffectiveCutoff,
+  convertToD3,
+  convertToD3WithCutoff,
+  convertTopLevelToD3,
+  autoCutoffHeight,
+  toLinkage,
+  mergeHeights,
+  heightAtPercentile,
+  clustersAtHeight,
+  splitToCount,
+  scoreCut,
+  sweepOptions,
+  parseGoldLabels,
+  goldLabelOf,
+  evaluateTree,
+  partitionAgreement,
+  optionCombinations,
+  bestSweepRun,
+  MAX_SWEEP_RUNS,
+  copheneticCorrelation,
+  silhouettes,
+  dendrogramMetrics,
+  scoreTree,
+  MAX_BEST_K,
+  type SegmentationResult,
+  type VectorResult,
+  type SimilarityResult,
+  type MicroClustering,
+  createStageReporter,
+  type DendrogramNode,
+  type TaxonomyAnalysis,
+  type DistanceComputer,
+  type DendrogramCut,
+  type DendrogramLinkage,
+  type ClusterMetrics,
+  type GoldLabels,
+  type GoldEvaluation,
+  type OptionGrid,
+  type SweepRun,
+  type RunQuality,
+  type SweepSettings,
+  type DendrogramMetrics,
+  type ClusterScore,
+  type BestKPoint,
+  type Classification,
+  type LsaSummary,
+  type EmbeddingCoverage,
+  type ClusterProgress,
+  type StageReporter,
+} from "./pipeline";
+export {
+  MODES,
+  LINKAGES,
+  CLUSTER_ALGORITHMS,
+  APPROXIMATE_MODES,
+  TERM_WEIGHTINGS,
+  WORD_CONTEXTS,
+  DISTANCE_METRICS,
+  EMBEDDING_MODES,
+  PROGRESS_STAGES,
+  type Mode,
+  type Linkage,
+  type ClusterAlgorithm,
+  type ApproximateMode,
+  type TermWeighting,
+  type WordContext,
+  type DistanceMetric,
+  type EmbeddingMode,
+  type WorkerOptions,
+  type TaxonomyNode,
+  type ProgressCallback,
+  type ProgressStage,
+  type ProgressUpdate,
+} from "./types";
+export {
+  WEIGHTING_SCHEMES,
+  DISTANCE_METRIC_DEFINITIONS,
+  buildTfIdfVectors,
+  ppmiVectors,
+  distanceMatrix,
+  vectorDistance,
+  type SparseVector,
+  type DistanceMatrix,
+  type WeightingScheme,
+  type DistanceMetricDefinition,
+} from "./utils/math";
+export {
+  truncatedSvd,
+  type TruncatedSvd,
+  type TruncatedSvdOptions,
+} from "./utils/svd";
+export {
+  readEmbeddings,
+  embeddingFormatFor,
+  termEmbedding,
+  DEFAULT_MAX_EMBEDDING_WORDS,
+  type WordEmbeddings,
+  type EmbeddingFormat,
+  type ReadEmbeddingsOptions,
+} from "./utils/embeddings";
+export {
+  applyEdit,
+  editProblem,
+  describeEdit,
+  isCategory,
+  emptyHistory,
+  recordEdit,
+  undoEdit,
+  redoEdit,
+  replayEdits,
+  rebaseEdits,
+  CurationError,
+  MAX_UNDO_STEPS,
+  type TreeEdit,
+  type CurationStep,
+  type CurationHistory,
+  type LoggedEdit,
+  type CurationLog,
+} from "./utils/curation";
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  approximateCluster,
+  miniBatchKMeans,
+  shouldApproximate,
+} from "./approximate";
+import type { DendrogramNode } from "./cluster";
+import { seededRandom, type SparseVector } from "../utils/math";
+
+// Sparse vectors over a few topics, every tenth one empty
+function topicVectors(n: number): SparseVector[] {
+  const random = seededRandom(11);
+  return Array.from({ length: n }, (_, i) => {
+    if (i % 10 === 9) {
+      return { indices: new Uint32Array(0), values: new Float64Array(0) };
+    }
+    const topic = (i % 4) * 20;
+    const indices = [
+      ...new Set(
+        Array.from({ length: 5 }, () => topic + Math.floor(random() * 20)),
+      ),
+    ].sort((a, b) => a - b);
+    return {
+      indices: Uint32Array.from(indices),
+      values: Float64Array.from(indices, () => random() + 0.1),
+    };
+  });
+}
+
+function leafIndices(node: DendrogramNode): number[] {
+  return node.isLeaf ? [node.index] : node.children.flatMap(leafIndices);
+}
+
+// Every cluster is at least as high as its children and counts its leaves
+function expectConsistent(node: DendrogramNode) {
+  if (node.isLeaf) return;
+  expect(node.size).toBe(leafIndices(node).length);
+  for (const child of node.children) {
+    expect(child.height).toBeLessThanOrEqual(node.height);
+    expectConsistent(child);
+  }
+}
+
+const range = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+describe("miniBatchKMeans", () => {
+  it("puts every row in one micro-cluster and the empty rows together", () => {
+    const vectors = topicVectors(200);
+    const { members, centroids } = miniBatchKMeans(vectors, 8, { seed: 3 });
+    expect(centroids).toHaveLength(members.length);
+    expect(members.flat().sort((a, b) => a - b)).toEqual(range(200));
+    const empty = range(200).filter((i) => i % 10 === 9);
+    expect(members).toContainEqual(empty);
+  });
+});
+
+describe("approximateCluster", () => {
+  it("expands the micro-clusters back into every input exactly once", () => {
+    const vectors = topicVectors(300);
+    const root = approximateCluster(vectors, { microClusters: 12 });
+    expect(root.size).toBe(300);
+    expect(leafIndices(root).sort((a, b) => a - b)).toEqual(range(300));
+    expectConsistent(root);
+  });
+
+  it("keeps micro-clusters too large for an exact sub-tree as flat nodes", () => {
+    const vectors = topicVectors(1200);
+    const root = approximateCluster(vectors, { microClusters: 2 });
+    expect(leafIndices(root).sort((a, b) => a - b)).toEqual(range(1200));
+    const flat = (node: DendrogramNode): boolean =>
+      !node.isLeaf && (node.children.length > 500 || node.children.some(flat));
+    expect(flat(root)).toBe(true);
+    expectConsistent(root);
+  });
+});
+
+describe("shouldApproximate", () => {
+  it("follows the mode and the threshold", () => {
+    expect(shouldApproximate(2001)).toBe(true);
+    expect(shouldApproximate(2000)).toBe(false);
+    expect(shouldApproximate(10, { approximate: "always" })).toBe(true);
+    expect(shouldApproximate(10_000, { approximate: "never" })).toBe(false);
+    expect(shouldApproximate(60, { approximateThreshold: 50 })).toBe(true);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Approximate hierarchical clustering for large inputs.
+ *
+ * A full distance matrix grows with n², so above a few thousand segments the
+ * vectors are first grouped into micro-clusters with spherical mini-batch
+ * k-means. The hierarchy is built over the micro-cluster centroids and every
+ * centroid leaf is then expanded back into its member segments, so the
+ * result is an ordinary dendrogram over the original segments.
+ *
+ * Micro-clusters are always found by cosine similarity; `options.metric` is
+ * used between the centroids and inside each micro-cluster.
+ */
+
+import {
+  distanceMatrix,
+  seededRandom,
+  vectorDistance,
+  type SparseVector,
+} from "../utils/math";
+import { clusterMatrix, leafNode, type DendrogramNode } from "./cluster";
+import type { StageReporter } from "./progress";
+import type { WorkerOptions } from "../types";
+
+export const DEFAULT_APPROXIMATE_THRESHOLD = 2000;
+const MAX_MICRO_CLUSTERS = 1000;
+// Upper bound on k × dimensions of the dense centroid table (8M doubles = 64 MB)
+const MAX_CENTROID_CELLS = 8_000_000;
+// Micro-clusters up to this size get an exact sub-dendrogram; larger ones stay flat
+const MAX_EXACT_MEMBERS = 500;
+
+export interface MicroClustering {
+  // Member rows of each micro-cluster
+  members: number[][];
+  // Sum of the L2-normalised member vectors (cosine ignores the scale)
+  centroids: SparseVector[];
+}
+
+export interface KMeansOptions {
+  batchSize?: number;
+  iterations?: number;
+  seed?: number;
+}
+
+/**
+ * Whether the options route `count` segments through the approximate path.
+ */
+export function shouldApproximate(
+  count: number,
+  options: WorkerOptions = {},
+): boolean {
+  const mode = options.approximate ?? "auto";
+  if (mode === "always") return true;
+  if (mode === "never") return false;
+  return (
+    count > (options.approximateThreshold ?? DEFAULT_APPROXIMATE_THRESHOLD)
+  );
+}
+
+export function defaultMicroClusterCount(count: number): number {
+  return Math.min(MAX_MICRO_CLUSTERS, Math.ceil(10 * Math.sqrt(count)));
+}
+
+function norm(v: SparseVector): number {
+  let sq = 0;
+  for (let k = 0; k < v.values.length; k++) sq += v.values[k] * v.values[k];
+  return Math.sqrt(sq);
+}
+
+/**
+ * Spherical mini-batch k-means (Sculley 2010) over sparse vectors.
+ *
+ * Centres are dense rows stored as `scale × row`, so the per-sample update
+ * `c ← (1 − η)c + η·x̂` only touches the sample's non-zero dimensions. All-zero
+ * vectors cannot be compared by cosine and are put in a micro-cluster of
+ * their own.
+ */
+export function miniBatchKMeans(
+  vectors: SparseVector[],
+  k: number,
+  options: KMeansOptions = {},
+  onProgress?: (fraction: number) => void,
+): MicroClustering {
+  const norms = vectors.map(norm);
+  const rows = vectors.map((_, i) => i).filter((i) => norms[i] > 0);
+  const zeroRows = vectors.map((_, i) => i).filter((i) => norms[i] === 0);
+  if (rows.length === 0) {
+    return {
+      members: [zeroRows],
+      centroids: [{ indices: new Uint32Array(0), values: new Float64Array(0) }],
+    };
+  }
+
+  let dims = 1;
+  for (const v of vectors) {
+    if (v.indices.length)
+      dims = Math.max(dims, v.indices[v.indices.length - 1] + 1);
+  }
+  k = Math.max(
+    1,
+    Math.min(k, rows.length, Math.floor(MAX_CENTROID_CELLS / dims)),
+  );
+
+  const random = seededRandom(options.seed ?? 1);
+  // Dimension-major (centres[d * k + c]) so scoring a row against every
+  // centre walks contiguous memory
+  const centres = new Float64Array(k * dims);
+  const scale = new Float64Array(k).fill(1);
+  const sqNorm = new Float64Array(k).fill(1);
+  // The seed sample counts as the first member
+  const counts = new Float64Array(k).fill(1);
+
+  // Seed with k distinct random rows (partial Fisher–Yates)
+  const order = rows.slice();
+  for (let c = 0; c < k; c++) {
+    const pick = c + Math.floor(random() * (order.length - c));
+    [order[c], order[pick]] = [order[pick], order[c]];
+    const { indices, values } = vectors[order[c]];
+    for (let e = 0; e < indices.length; e++)
+      centres[indices[e] * k + c] = values[e] / norms[order[c]];
+  }
+
+  // Cosine similarity between centre c and row i
+  const similarity = (c: number, i: number) => {
+    const { indices, values } = vectors[i];
+    let dot = 0;
+    for (let e = 0; e < indices.length; e++)
+      dot += centres[indices[e] * k + c] * values[e];
+    return (scale[c] * dot) / (Math.sqrt(sqNorm[c]) * norms[i]);
+  };
+  // Row norms are the same for every centre, so they don't affect the argmax
+  const scores = new Float64Array(k);
+  const nearest = (i: number) => {
+    const { indices, values } = vectors[i];
+    scores.fill(0);
+    for (let e = 0; e < indices.length; e++) {
+      const base = indices[e] * k;
+      const v = values[e];
+      for (let c = 0; c < k; c++) scores[c] += centres[base + c] * v;
+    }
+    let best = 0;
+    let bestSimilarity = -Infinity;
+    for (let c = 0; c < k; c++) {
+      const s = (scale[c] * scores[c]) / Math.sqrt(sqNorm[c]);
+      if (s > bestSimilarity) {
+        bestSimilarity = s;
+        best = c;
+      }
+    }
+    return best;
+  };
+
+  const batchSize = Math.min(options.batchSize ?? 1024, rows.length);
+  const iterations =
+    options.iterations ??
+    Math.min(100, Math.ceil((3 * rows.length) / Math.max(1, batchSize)));
+  const batch = new Int32Array(batchSize);
+  const assigned = new Int32Array(batchSize);
+  for (let it = 0; it < iterations && rows.length > k; it++) {
+    for (let b = 0; b < batchSize; b++) {
+      batch[b] = rows[Math.floor(random() * rows.length)];
+      assigned[b] = nearest(batch[b]);
+    }
+    for (let b = 0; b < batchSize; b++) {
+      const c = assigned[b];
+      const i = batch[b];
+      const eta = 1 / ++counts[c];
+      const cosine = similarity(c, i) * Math.sqrt(sqNorm[c]);
+      sqNorm[c] =
+        (1 - eta) ** 2 * sqNorm[c] + 2 * (1 - eta) * eta * cosine + eta * eta;
+      scale[c] *= 1 - eta;
+
+      const { indices, values } = vectors[i];
+      const step = eta / (scale[c] * norms[i]);
+      for (let e = 0; e < indices.length; e++)
+        centres[indices[e] * k + c] += step * values[e];
+
+      // Fold the scale back in before it underflows
+      if (scale[c] < 1e-100) {
+        for (let d = 0; d < dims; d++) centres[d * k + c] *= scale[c];
+        scale[c] = 1;
+      }
+    }
+    onProgress?.(((it + 1) / iterations) * 0.8);
+  }
+
+  // Final assignment of every row, then drop centres that ended up empty
+  const byCentre: number[][] = Array.from({ length: k }, () => []);
+  rows.forEach((i, done) => {
+    byCentre[nearest(i)].push(i);
+    if (done % 256 === 0) onProgress?.(0.8 + (0.2 * done) / rows.length);
+  });
+  const members = byCentre.filter((m) => m.length > 0);
+  if (zeroRows.length) members.push(zeroRows);
+
+  const centroids = members.map((memberRows) => {
+    const sum = new Map<number, number>();
+    for (const i of memberRows) {
+      if (norms[i] === 0) continue;
+      const { indices, values } = vectors[i];
+      for (let e = 0; e < indices.length; e++) {
+        sum.set(indices[e], (sum.get(indices[e]) ?? 0) + values[e] / norms[i]);
+      }
+    }
+    const indices = Uint32Array.from(sum.keys()).sort();
+    return { indices, values: Float64Array.from(indices, (d) => sum.get(d)!) };
+  });
+  onProgress?.(1);
+
+  return { members, centroids };
+}
+
+// Merge heights below a node never exceed its own, so cuts stay well defined
+function capHeights(node: DendrogramNode, ceiling: number): void {
+  node.height = Math.min(node.height, ceiling);
+  for (const child of node.children) capHeights(child, node.height);
+}
+
+function expandMicroCluster(
+  memberRows: number[],
+  centroid: SparseVector,
+  vectors: SparseVector[],
+  options: WorkerOptions,
+): DendrogramNode {
+  if (memberRows.length === 1) return leafNode(memberRows[0]);
+
+  if (memberRows.length <= MAX_EXACT_MEMBERS) {
+    const sub = clusterMatrix(
+      distanceMatrix(
+        memberRows.map((i) => vectors[i]),
+        options.metric,
+      ),
+      options,
+    );
+    const remap = (node: DendrogramNode) => {
+      if (node.isLeaf) node.index = memberRows[node.index];
+      node.children.forEach(remap);
+    };
+    remap(sub);
+    return sub;
+  }
+
+  // Too large for an exact sub-tree: one flat node as wide as its furthest member
+  let height = 0;
+  for (const i of memberRows)
+    height = Math.max(
+      height,
+      vectorDistance(vectors[i], centroid, options.metric),
+    );
+  return {
+    children: memberRows.map(leafNode),
+    height,
+    size: memberRows.length,
+    index: -1,
+    isLeaf: false,
+  };
+}
+
+/**
+ * Cluster `vectors` through micro-clusters (see the module comment). The
+ * options choose the algorithm and linkage used over the centroids and
+ * inside each micro-cluster.
+ */
+export function approximateCluster(
+  vectors: SparseVector[],
+  options: WorkerOptions = {},
+  report?: StageReporter,
+): DendrogramNode {
+  const k = options.microClusters ?? defaultMicroClusterCount(vectors.length);
+
+  report?.(
+    "distances",
+    0,
+    `Grouping ${vectors.length} segments into up to ${k} micro-clusters...`,
+  );
+  const { members, centroids } = miniBatchKMeans(vectors, k, {}, (f) =>
+    report?.("distances", f),
+  );
+
+  report?.(
+    "clustering",
+    0,
+    `Clustering ${members.length} micro-cluster centroids...`,
+  );
+  const expanded = members.map((memberRows, m) => {
+    report?.("clustering", (0.5 * m) / members.length);
+    return expandMicroCluster(memberRows, centroids[m], vectors, options);
+  });
+  if (expanded.length === 1) return expanded[0];
+
+  const top = clusterMatrix(
+    distanceMatrix(centroids, options.metric),
+    options,
+    (f) => report?.("clustering", 0.5 + 0.5 * f),
+  );
+  const graft = (node: DendrogramNode): DendrogramNode => {
+    if (node.isLeaf) return expanded[node.index];
+    node.children = node.children.map(graft);
+    node.size = node.children.reduce((sum, child) => sum + child.size, 0);
+    return node;
+  };
+  const root = graft(top);
+  capHeights(root, root.height);
+  return root;
+}
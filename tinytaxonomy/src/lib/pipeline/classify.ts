@@ -0,0 +1,110 @@
+import { nlp, its } from "./wink";
+import {
+  buildTfIdfVectors,
+  documentFrequencies,
+  type SparseVector,
+} from "../utils/math";
+import type { Mode, TaxonomyNode, WorkerOptions } from "../types";
+
+export interface Classification {
+  text: string;
+  // Matrix index of the most similar leaf, -1 when nothing matched
+  index: number;
+  label: string | null;
+  similarity: number;
+  // Label of the top-level cluster holding that leaf
+  cluster: string | null;
+}
+
+function stems(text: string): string[] {
+  return nlp
+    .readDoc(text)
+    .tokens()
+    .filter((t: any) => t.out(its.type) === "word" && !t.out(its.stopWordFlag))
+    .out(its.stem);
+}
+
+function dot(a: SparseVector, b: SparseVector): number {
+  let sum = 0;
+  let i = 0;
+  let j = 0;
+  while (i < a.indices.length && j < b.indices.length) {
+    if (a.indices[i] === b.indices[j]) sum += a.values[i++] * b.values[j++];
+    else if (a.indices[i] < b.indices[j]) i++;
+    else j++;
+  }
+  return sum;
+}
+
+function containsLeaf(node: TaxonomyNode, index: number): boolean {
+  if (node.index === index && node.type === "leaf") return true;
+  return [...(node.children ?? []), ...(node._children ?? [])].some((child) =>
+    containsLeaf(child, index),
+  );
+}
+
+/**
+ * Assign new texts to the most similar leaf of an existing taxonomy by
+ * cosine similarity of term vectors over stems, weighted like the analysis
+ * (`options.weighting`). `segments` are the clustered units in matrix order;
+ * word-mode leaves are matched through the stems of their labels, which
+ * works for stems and lemmas/n-grams alike.
+ */
+export function classifyTexts(
+  texts: string[],
+  segments: string[],
+  mode: Mode,
+  tree: TaxonomyNode,
+  labels: string[],
+  options: WorkerOptions = {},
+): Classification[] {
+  const leafDocs = mode === "word" ? labels.map(stems) : segments.map(stems);
+  const queryDocs = texts.map(stems);
+  const vocabulary = [...new Set(leafDocs.flat())];
+
+  // idf and lengths come from the leaves only, so queries cannot shift the weighting
+  const df = documentFrequencies(leafDocs);
+  const vectorOptions = {
+    normalizeVector: true,
+    documentCount: leafDocs.length,
+    averageLength:
+      leafDocs.reduce((sum, doc) => sum + doc.length, 0) / leafDocs.length,
+    weighting: mode === "word" ? undefined : options.weighting,
+  };
+  const leafVectors = buildTfIdfVectors(
+    leafDocs,
+    vocabulary,
+    vectorOptions,
+    df,
+  );
+  const queryVectors = buildTfIdfVectors(
+    queryDocs,
+    vocabulary,
+    vectorOptions,
+    df,
+  );
+  const topLevel = tree.children ?? tree._children ?? [];
+
+  return texts.map((text, q) => {
+    let best = -1;
+    let bestSimilarity = 0;
+    leafVectors.forEach((leaf, i) => {
+      const similarity = dot(queryVectors[q], leaf);
+      if (similarity > bestSimilarity) {
+        bestSimilarity = similarity;
+        best = i;
+      }
+    });
+    const cluster =
+      best >= 0
+        ? topLevel.find((child) => containsLeaf(child, best))
+        : undefined;
+    return {
+      text,
+      index: best,
+      label: best >= 0 ? labels[best] : null,
+      similarity: bestSimilarity,
+      cluster: cluster ? (cluster.clusterLabel ?? cluster.name) : null,
+    };
+  });
+}
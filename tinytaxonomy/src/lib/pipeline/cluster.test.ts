@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import { agnes as referenceAgnes, type AgglomerationMethod } from "ml-hclust";
+import { agnes, clusterMatrix, diana, type DendrogramNode } from "./cluster";
+import { fromDenseMatrix } from "../utils/math";
+import { LINKAGES, type Linkage } from "../types";
+
+// Nested leaf indices with merge heights, e.g. [10, [2, 0, 1], ...]
+type Shape = number | [number, ...Shape[]];
+
+function shape(node: DendrogramNode): Shape {
+  if (node.isLeaf) return node.index;
+  const children = node.children.map(shape).sort((a, b) => first(a) - first(b));
+  return [Number(node.height.toFixed(6)), ...children];
+}
+
+function first(s: Shape): number {
+  return typeof s === "number"
+    ? s
+    : Math.min(...(s.slice(1) as Shape[]).map(first));
+}
+
+function heights(node: DendrogramNode): number[] {
+  return node.isLeaf ? [] : [node.height, ...node.children.flatMap(heights)];
+}
+
+function euclidean(points: number[][]): number[][] {
+  return points.map((p) =>
+    points.map((q) => Math.hypot(p[0] - q[0], p[1] - q[1])),
+  );
+}
+
+// ml-hclust, which AGNES used before, is the reference for every linkage
+const REFERENCE_METHODS: Record<Linkage, AgglomerationMethod> = {
+  single: "single",
+  complete: "complete",
+  average: "average",
+  weighted: "wpgma",
+  centroid: "centroid",
+  median: "median",
+  ward: "ward2",
+};
+
+function reference(rows: number[][], linkage: Linkage): DendrogramNode {
+  return referenceAgnes(rows, {
+    method: REFERENCE_METHODS[linkage],
+    isDistanceMatrix: true,
+  }) as unknown as DendrogramNode;
+}
+
+// Two loose groups and a straggler, with no tied distances
+const POINTS = euclidean([
+  [0, 0],
+  [1.1, 0.3],
+  [0.4, 1.7],
+  [5.2, 4.9],
+  [6.3, 5.4],
+  [5.7, 6.8],
+  [4.6, 6.1],
+  [9.8, 0.6],
+]);
+
+// The middle point sits far enough above the closest pair that the centroid
+// of that pair is nearer to it than the pair were to each other
+const INVERSION = euclidean([
+  [0, 0],
+  [1, 0],
+  [0.5, 0.9],
+]);
+
+// Kaufman & Rousseeuw's five-object example for DIANA
+const KR_EXAMPLE = [
+  [0, 2, 6, 10, 9],
+  [2, 0, 5, 9, 8],
+  [6, 5, 0, 4, 5],
+  [10, 9, 4, 0, 3],
+  [9, 8, 5, 3, 0],
+];
+
+describe("agnes", () => {
+  it.each(LINKAGES)(
+    "builds the same tree as ml-hclust with %s linkage",
+    (linkage) => {
+      expect(shape(agnes(fromDenseMatrix(POINTS), linkage))).toEqual(
+        shape(reference(POINTS, linkage)),
+      );
+    },
+  );
+
+  it.each(["centroid", "median"] as const)(
+    "keeps %s inversions as the reference does",
+    (linkage) => {
+      const tree = agnes(fromDenseMatrix(INVERSION), linkage);
+      expect(shape(tree)).toEqual(shape(reference(INVERSION, linkage)));
+      // The root merges below its child, yet no height goes negative
+      expect(tree.height).toBeLessThan(
+        tree.children.find((c) => !c.isLeaf)!.height,
+      );
+      expect(
+        Math.min(...heights(agnes(fromDenseMatrix(POINTS), linkage))),
+      ).toBeGreaterThan(0);
+    },
+  );
+
+  it("has monotone heights for the other linkages", () => {
+    for (const linkage of LINKAGES.filter(
+      (l) => l !== "centroid" && l !== "median",
+    )) {
+      const tree = agnes(fromDenseMatrix(INVERSION), linkage);
+      expect(tree.height).toBeGreaterThanOrEqual(Math.max(...heights(tree)));
+    }
+  });
+
+  it("rejects unknown linkages and empty matrices", () => {
+    expect(() => agnes(fromDenseMatrix(POINTS), "mean" as Linkage)).toThrow(
+      /Unknown linkage/,
+    );
+    expect(() => agnes(fromDenseMatrix([]))).toThrow(/empty/);
+  });
+});
+
+describe("diana", () => {
+  it("reproduces the textbook splits and diameters", () => {
+    expect(shape(diana(fromDenseMatrix(KR_EXAMPLE)))).toEqual([
+      10,
+      [2, 0, 1],
+      [5, 2, [3, 3, 4]],
+    ]);
+  });
+
+  it("has heights that never increase going down and counts every leaf", () => {
+    const n = 12;
+    const rows = Array.from({ length: n }, (_, i) =>
+      Array.from({ length: n }, (_, j) =>
+        i === j ? 0 : Math.abs(Math.sin(i * 7 + j * 7) * (i + j + 1)),
+      ),
+    );
+    const tree = diana(fromDenseMatrix(rows));
+    const leaves: number[] = [];
+    (function walk(node: DendrogramNode, parentHeight: number) {
+      expect(node.height).toBeLessThanOrEqual(parentHeight);
+      if (node.isLeaf) leaves.push(node.index);
+      else {
+        expect(node.size).toBe(
+          node.children.reduce((sum, c) => sum + c.size, 0),
+        );
+        node.children.forEach((child) => walk(child, node.height));
+      }
+    })(tree, Infinity);
+    expect(leaves.sort((a, b) => a - b)).toEqual(
+      Array.from({ length: n }, (_, i) => i),
+    );
+  });
+
+  it("is what clusterMatrix runs for the divisive algorithm", () => {
+    const matrix = fromDenseMatrix(KR_EXAMPLE);
+    expect(clusterMatrix(matrix, { algorithm: "divisive" })).toEqual(
+      diana(matrix),
+    );
+  });
+
+  it("handles one and two items", () => {
+    expect(shape(diana(fromDenseMatrix([[0]])))).toBe(0);
+    expect(
+      shape(
+        diana(
+          fromDenseMatrix([
+            [0, 0.5],
+            [0.5, 0],
+          ]),
+        ),
+      ),
+    ).toEqual([0.5, 0, 1]);
+  });
+});
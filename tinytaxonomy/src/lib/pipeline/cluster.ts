@@ -0,0 +1,262 @@
+import { getDistance, type DistanceMatrix } from "../utils/math";
+import type { ClusterAlgorithm, Linkage, WorkerOptions } from "../types";
+
+/**
+ * Dendrogram node: leaves carry the row `index` of the distance matrix,
+ * internal nodes the merge `height`.
+ */
+export interface DendrogramNode {
+  children: DendrogramNode[];
+  height: number;
+  size: number;
+  index: number;
+  isLeaf: boolean;
+}
+
+// Lance-Williams update: distance from cluster k to the merge of i and j.
+// Ward uses squared distances (R's ward.D2) so merge heights stay in the
+// same units as the input distances.
+type LinkageUpdate = (
+  dKI: number,
+  dKJ: number,
+  dIJ: number,
+  ni: number,
+  nj: number,
+  nk: number,
+) => number;
+
+const LINKAGE_UPDATES: Record<Linkage, LinkageUpdate> = {
+  single: (dKI, dKJ) => Math.min(dKI, dKJ),
+  complete: (dKI, dKJ) => Math.max(dKI, dKJ),
+  average: (dKI, dKJ, dIJ, ni, nj) => (ni * dKI + nj * dKJ) / (ni + nj),
+  weighted: (dKI, dKJ) => (dKI + dKJ) / 2,
+  centroid: (dKI, dKJ, dIJ, ni, nj) =>
+    (ni * dKI + nj * dKJ) / (ni + nj) - (ni * nj * dIJ) / (ni + nj) ** 2,
+  median: (dKI, dKJ, dIJ) => dKI / 2 + dKJ / 2 - dIJ / 4,
+  ward: (dKI, dKJ, dIJ, ni, nj, nk) => {
+    const total = ni + nj + nk;
+    return Math.sqrt(
+      Math.max(
+        0,
+        ((ni + nk) * dKI * dKI + (nj + nk) * dKJ * dKJ - nk * dIJ * dIJ) /
+          total,
+      ),
+    );
+  },
+};
+
+// Receives the approximate fraction of the clustering work done
+export type ClusterProgress = (fraction: number) => void;
+
+/**
+ * Cluster a distance matrix with the configured algorithm (agglomerative by
+ * default) and linkage (average by default).
+ */
+export function clusterMatrix(
+  matrix: DistanceMatrix,
+  options: WorkerOptions = {},
+  onProgress?: ClusterProgress,
+): DendrogramNode {
+  const algorithm: ClusterAlgorithm = options.algorithm ?? "agglomerative";
+  if (algorithm === "divisive") {
+    return diana(matrix, onProgress);
+  }
+  return agnes(matrix, options.linkage ?? "average", onProgress);
+}
+
+export function leafNode(index: number): DendrogramNode {
+  return { children: [], height: 0, size: 1, index, isLeaf: true };
+}
+
+/**
+ * Agglomerative nesting (AGNES) with Lance-Williams updates.
+ *
+ * Works in place on a copy of the packed matrix and caches each cluster's
+ * nearest neighbour, so a merge only rescans the rows whose neighbour went
+ * away instead of searching all pairs again.
+ */
+export function agnes(
+  matrix: DistanceMatrix,
+  linkage: Linkage = "average",
+  onProgress?: ClusterProgress,
+): DendrogramNode {
+  const update = LINKAGE_UPDATES[linkage];
+  if (!update) {
+    throw new Error(
+      `Unknown linkage "${linkage}" (expected ${Object.keys(LINKAGE_UPDATES).join(", ")})`,
+    );
+  }
+
+  const n = matrix.size;
+  if (n === 0) throw new Error("Cannot cluster an empty distance matrix");
+  if (n === 1) return leafNode(0);
+
+  const data = matrix.data.slice();
+  const offsets = new Float64Array(n);
+  for (let i = 0; i < n; i++) offsets[i] = i * n - (i * (i + 1)) / 2 - i - 1;
+  const at = (i: number, j: number) =>
+    i < j ? offsets[i] + j : offsets[j] + i;
+
+  const nodes: (DendrogramNode | null)[] = Array.from({ length: n }, (_, i) =>
+    leafNode(i),
+  );
+  const active: number[] = Array.from({ length: n }, (_, i) => i);
+  const nearest = new Int32Array(n);
+  const nearestDistance = new Float64Array(n);
+
+  const findNearest = (i: number) => {
+    let best = -1;
+    let bestDistance = Infinity;
+    for (const j of active) {
+      if (j === i) continue;
+      const d = data[at(i, j)];
+      if (d < bestDistance) {
+        bestDistance = d;
+        best = j;
+      }
+    }
+    nearest[i] = best;
+    nearestDistance[i] = bestDistance;
+  };
+  for (const i of active) findNearest(i);
+
+  while (active.length > 1) {
+    // Closest pair overall
+    let a = active[0];
+    for (const i of active) {
+      if (nearestDistance[i] < nearestDistance[a]) a = i;
+    }
+    const b = nearest[a];
+    const height = nearestDistance[a];
+    const nodeA = nodes[a]!;
+    const nodeB = nodes[b]!;
+
+    // Merge b into a's slot
+    for (const k of active) {
+      if (k === a || k === b) continue;
+      data[at(k, a)] = update(
+        data[at(k, a)],
+        data[at(k, b)],
+        height,
+        nodeA.size,
+        nodeB.size,
+        nodes[k]!.size,
+      );
+    }
+    nodes[a] = {
+      children: [nodeA, nodeB],
+      height,
+      size: nodeA.size + nodeB.size,
+      index: -1,
+      isLeaf: false,
+    };
+    nodes[b] = null;
+    active.splice(active.indexOf(b), 1);
+
+    findNearest(a);
+    for (const k of active) {
+      if (k === a) continue;
+      if (nearest[k] === a || nearest[k] === b) {
+        findNearest(k);
+      } else if (data[at(k, a)] < nearestDistance[k]) {
+        nearest[k] = a;
+        nearestDistance[k] = data[at(k, a)];
+      }
+    }
+    // Each merge scans the remaining clusters, so the work left shrinks quadratically
+    onProgress?.(1 - (active.length / n) ** 2);
+  }
+
+  return nodes[active[0]]!;
+}
+
+function diameter(matrix: DistanceMatrix, members: number[]): number {
+  let max = 0;
+  for (let a = 0; a < members.length; a++) {
+    for (let b = a + 1; b < members.length; b++) {
+      const d = getDistance(matrix, members[a], members[b]);
+      if (d > max) max = d;
+    }
+  }
+  return max;
+}
+
+/**
+ * Divisive analysis (DIANA, Kaufman & Rousseeuw) over a distance matrix.
+ *
+ * Starting from one cluster holding everything, each cluster is split by
+ * seeding a splinter group with its most dissimilar member and moving over
+ * every member that is on average closer to the splinter group than to the
+ * rest. Node heights are cluster diameters, so they never increase going
+ * down the tree and the result can be cut like an agglomerative dendrogram.
+ */
+export function diana(
+  matrix: DistanceMatrix,
+  onProgress?: ClusterProgress,
+): DendrogramNode {
+  let placed = 0;
+  const leaf = (index: number) => {
+    onProgress?.(++placed / matrix.size);
+    return leafNode(index);
+  };
+
+  const split = (members: number[]): DendrogramNode => {
+    if (members.length === 1) return leaf(members[0]);
+
+    const height = diameter(matrix, members);
+    const node: DendrogramNode = {
+      children: [],
+      height,
+      size: members.length,
+      index: -1,
+      isLeaf: false,
+    };
+    if (members.length === 2) {
+      node.children = [leaf(members[0]), leaf(members[1])];
+      return node;
+    }
+
+    // Running sums of each member's distances to the remaining and splinter groups
+    const inRemaining = new Array<boolean>(members.length).fill(true);
+    const toRemaining = members.map((i) =>
+      members.reduce((sum, j) => sum + getDistance(matrix, i, j), 0),
+    );
+    const toSplinter = new Array<number>(members.length).fill(0);
+    let remainingCount = members.length;
+    let splinterCount = 0;
+
+    while (remainingCount > 1) {
+      let best = -1;
+      let bestScore = -Infinity;
+      for (let a = 0; a < members.length; a++) {
+        if (!inRemaining[a]) continue;
+        const avgRemaining = toRemaining[a] / (remainingCount - 1);
+        const score = splinterCount
+          ? avgRemaining - toSplinter[a] / splinterCount
+          : avgRemaining;
+        if (score > bestScore) {
+          bestScore = score;
+          best = a;
+        }
+      }
+      // The first move always seeds the splinter group; later ones need a gain
+      if (splinterCount > 0 && bestScore <= 0) break;
+
+      inRemaining[best] = false;
+      remainingCount--;
+      splinterCount++;
+      for (let a = 0; a < members.length; a++) {
+        const d = getDistance(matrix, members[best], members[a]);
+        toRemaining[a] -= d;
+        toSplinter[a] += d;
+      }
+    }
+
+    const remaining = members.filter((_, a) => inRemaining[a]);
+    const splinter = members.filter((_, a) => !inRemaining[a]);
+    node.children = [split(remaining), split(splinter)];
+    return node;
+  };
+
+  return split(Array.from({ length: matrix.size }, (_, i) => i));
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { agnes, leafNode, type DendrogramNode } from "./cluster";
+import {
+  clustersAtHeight,
+  heightAtPercentile,
+  mergeHeights,
+  sameLinkage,
+  splitToCount,
+  toLinkage,
+} from "./cut";
+import { convertToD3WithCutoff } from "./tree";
+import { fromDenseMatrix } from "../utils/math";
+
+// Two loose groups and a straggler, with no tied distances
+const POINTS = [
+  [0, 0],
+  [1.1, 0.3],
+  [0.4, 1.7],
+  [5.2, 4.9],
+  [6.3, 5.4],
+  [5.7, 6.8],
+  [4.6, 6.1],
+  [9.8, 0.6],
+];
+const LABELS = POINTS.map((_, i) => `item ${i}`);
+
+function dendrogramOf(points: number[][]): DendrogramNode {
+  return agnes(
+    fromDenseMatrix(
+      points.map((p) =>
+        points.map((q) => Math.hypot(p[0] - q[0], p[1] - q[1])),
+      ),
+    ),
+    "average",
+  );
+}
+
+function clusterHeights(node: DendrogramNode): number[] {
+  return node.isLeaf
+    ? []
+    : [node.height, ...node.children.flatMap(clusterHeights)];
+}
+
+// Top-level clusters of the tree `convertToD3WithCutoff` builds
+function topLevelCount(dendrogram: DendrogramNode, height: number): number {
+  const tree = convertToD3WithCutoff(dendrogram, LABELS, height);
+  return Number(/^Root \((\d+) top-level/.exec(tree.name)?.[1] ?? 1);
+}
+
+describe("toLinkage", () => {
+  it("lists leaves first and every cluster after its children", () => {
+    const dendrogram = dendrogramOf(POINTS);
+    const linkage = toLinkage(dendrogram);
+    expect(linkage.leafCount).toBe(POINTS.length);
+    expect(linkage.parents).toHaveLength(2 * POINTS.length - 1);
+    expect(Array.from(linkage.heights.subarray(0, POINTS.length))).toEqual(
+      POINTS.map(() => 0),
+    );
+    linkage.parents.forEach((parent, i) => {
+      if (i === linkage.parents.length - 1) expect(parent).toBe(-1);
+      else expect(parent).toBeGreaterThan(i);
+    });
+    expect(mergeHeights(linkage)).toEqual(
+      clusterHeights(dendrogram).sort((a, b) => a - b),
+    );
+  });
+
+  it("keeps clusters with more than two children", () => {
+    const micro: DendrogramNode = {
+      children: [leafNode(0), leafNode(1), leafNode(2)],
+      height: 0.2,
+      size: 3,
+      index: -1,
+      isLeaf: false,
+    };
+    const root: DendrogramNode = {
+      children: [micro, leafNode(3)],
+      height: 0.7,
+      size: 4,
+      index: -1,
+      isLeaf: false,
+    };
+    const linkage = toLinkage(root);
+    expect(Array.from(linkage.parents)).toEqual([4, 4, 4, 5, 5, -1]);
+    expect(Array.from(linkage.heights)).toEqual([0, 0, 0, 0, 0.2, 0.7]);
+    expect(sameLinkage(linkage, toLinkage(root))).toBe(true);
+    expect(sameLinkage(linkage, toLinkage(micro))).toBe(false);
+  });
+});
+
+describe("clustersAtHeight", () => {
+  it("counts the top-level clusters convertToD3WithCutoff makes", () => {
+    const dendrogram = dendrogramOf(POINTS);
+    const linkage = toLinkage(dendrogram);
+    const heights = mergeHeights(linkage);
+    // Each merge height, halfway between merges, and both ends
+    const cuts = [
+      -1,
+      ...heights,
+      ...heights.slice(1).map((h, i) => (h + heights[i]) / 2),
+      heights.at(-1)! + 1,
+    ];
+    for (const height of cuts) {
+      expect(clustersAtHeight(linkage, height)).toBe(
+        topLevelCount(dendrogram, height),
+      );
+    }
+    expect(clustersAtHeight(linkage, -1)).toBe(POINTS.length);
+    expect(clustersAtHeight(linkage, heights.at(-1)!)).toBe(1);
+  });
+
+  it("cuts at the merge height below a percentile", () => {
+    const heights = [0.1, 0.2, 0.4, 0.8];
+    expect(heightAtPercentile(heights, 0)).toBe(0.1);
+    expect(heightAtPercentile(heights, 0.5)).toBe(0.4);
+    expect(heightAtPercentile(heights, 1)).toBe(0.8);
+    expect(heightAtPercentile([], 0.5)).toBe(0);
+  });
+});
+
+describe("splitToCount", () => {
+  it("splits the highest clusters until the count is reached", () => {
+    const dendrogram = dendrogramOf(POINTS);
+    const linkage = toLinkage(dendrogram);
+    const heights = mergeHeights(linkage);
+    for (let count = 1; count <= POINTS.length; count++) {
+      const clusters = splitToCount(dendrogram, count);
+      expect(clusters).toHaveLength(count);
+      // Without tied heights, a count cut is the height cut below the count−1 highest merges
+      if (count > 1 && count < POINTS.length) {
+        expect(clustersAtHeight(linkage, heights[heights.length - count])).toBe(
+          count,
+        );
+      }
+    }
+    expect(splitToCount(dendrogram, POINTS.length + 3)).toHaveLength(
+      POINTS.length,
+    );
+  });
+});
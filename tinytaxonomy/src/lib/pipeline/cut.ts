@@ -0,0 +1,155 @@
+/**
+ * Cutting the dendrogram into top-level clusters.
+ *
+ * The worker sends the page a compact copy of the dendrogram (the linkage)
+ * so the cutoff slider can count clusters and draw the merge heights
+ * without a round trip; only the final re-cut and re-labelling run in the
+ * worker. Nothing here touches the NLP libraries, so the page can import it.
+ */
+
+import type { DendrogramNode } from "./cluster";
+
+// Where to cut the dendrogram into top-level clusters when rebuilding the tree
+export type DendrogramCut =
+  | { by: "percentile"; percentile: number }
+  | { by: "height"; height: number }
+  | { by: "count"; count: number }
+  | { by: "none" };
+
+/**
+ * The dendrogram as flat arrays. Leaves come first (node i is input segment
+ * or word i), then the clusters with children before parents, so the root
+ * is last. Clusters may have more than two children (micro-clusters).
+ */
+export interface DendrogramLinkage {
+  leafCount: number;
+  // Parent node of each node, −1 for the root
+  parents: Int32Array;
+  // Merge height of each node, 0 for leaves
+  heights: Float64Array;
+}
+
+export function toLinkage(dendrogram: DendrogramNode): DendrogramLinkage {
+  const leafCount = dendrogram.isLeaf ? 1 : dendrogram.size;
+  const parents: number[] = new Array(leafCount).fill(-1);
+  const heights: number[] = new Array(leafCount).fill(0);
+
+  // Iterative post-order: deep single-linkage chains would overflow the stack
+  const stack: { node: DendrogramNode; childIds: number[] }[] = [
+    { node: dendrogram, childIds: [] },
+  ];
+  let lastId = -1;
+  while (stack.length) {
+    const top = stack[stack.length - 1];
+    if (top.node.isLeaf) {
+      stack.pop();
+      lastId = top.node.index;
+    } else if (top.childIds.length < top.node.children.length) {
+      stack.push({
+        node: top.node.children[top.childIds.length],
+        childIds: [],
+      });
+      continue;
+    } else {
+      stack.pop();
+      lastId = parents.length;
+      parents.push(-1);
+      heights.push(top.node.height);
+      for (const child of top.childIds) parents[child] = lastId;
+    }
+    if (stack.length) stack[stack.length - 1].childIds.push(lastId);
+  }
+  return {
+    leafCount,
+    parents: Int32Array.from(parents),
+    heights: Float64Array.from(heights),
+  };
+}
+
+/**
+ * Whether two linkages describe the same dendrogram (heights to within
+ * rounding), e.g. a saved one and that of re-running its analysis.
+ */
+export function sameLinkage(
+  a: DendrogramLinkage,
+  b: DendrogramLinkage,
+): boolean {
+  if (a.leafCount !== b.leafCount || a.parents.length !== b.parents.length)
+    return false;
+  for (let i = 0; i < a.parents.length; i++) {
+    if (
+      a.parents[i] !== b.parents[i] ||
+      Math.abs(a.heights[i] - b.heights[i]) > 1e-9
+    )
+      return false;
+  }
+  return true;
+}
+
+// Merge heights of the clusters, ascending
+export function mergeHeights(linkage: DendrogramLinkage): number[] {
+  return Array.from(linkage.heights.subarray(linkage.leafCount)).sort(
+    (a, b) => a - b,
+  );
+}
+
+// Merge height below which `percentile` (0–1) of the merges lie
+export function heightAtPercentile(
+  sortedHeights: number[],
+  percentile: number,
+): number {
+  if (sortedHeights.length === 0) return 0;
+  const i = Math.min(
+    sortedHeights.length - 1,
+    Math.max(0, Math.floor(sortedHeights.length * percentile)),
+  );
+  return sortedHeights[i];
+}
+
+/**
+ * Number of top-level clusters a cut at `height` gives: the nodes at or
+ * below it whose ancestors are all above it (as `convertToD3WithCutoff`).
+ */
+export function clustersAtHeight(
+  linkage: DendrogramLinkage,
+  height: number,
+): number {
+  const { parents, heights } = linkage;
+  // Walking from the root down, whether every ancestor is above the cut
+  const open = new Uint8Array(parents.length);
+  let count = 0;
+  for (let i = parents.length - 1; i >= 0; i--) {
+    const parent = parents[i];
+    if (parent >= 0 && !open[parent]) continue;
+    if (heights[i] > height && i >= linkage.leafCount) open[i] = 1;
+    else count++;
+  }
+  return count;
+}
+
+/**
+ * Split the highest cluster until there are `count` top-level clusters (or
+ * only leaves are left), as the flat exports do.
+ */
+export function splitToCount(
+  dendrogram: DendrogramNode,
+  count: number,
+): DendrogramNode[] {
+  const target = Math.max(1, Math.floor(count));
+  let clusters = [dendrogram];
+  while (clusters.length < target) {
+    let highest = -1;
+    for (let i = 0; i < clusters.length; i++) {
+      if (clusters[i].isLeaf) continue;
+      if (highest < 0 || clusters[i].height > clusters[highest].height)
+        highest = i;
+    }
+    if (highest < 0) break;
+    clusters = [
+      ...clusters.slice(0, highest),
+      ...clusters[highest].children,
+      ...clusters.slice(highest + 1),
+    ];
+  }
+  return clusters;
+}
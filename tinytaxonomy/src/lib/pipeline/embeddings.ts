@@ -0,0 +1,125 @@
+/**
+ * Word embeddings in the vectors.
+ *
+ * Lexical vectors only match identical terms, so "car" and "automobile" stay
+ * unrelated. With pre-trained word vectors a segment becomes the mean of its
+ * terms' vectors weighted by its lexical (e.g. TF-IDF) weights, and a word in
+ * word mode its own vector. Blending keeps the lexical vector as well: both
+ * parts are scaled to unit length and concatenated with weights √(1−α) and
+ * √α, so the cosine similarity of two segments is exactly
+ * (1−α)·lexical + α·embedding similarity.
+ */
+
+import {
+  denseToSparse,
+  termEmbedding,
+  type WordEmbeddings,
+} from "../utils/embeddings";
+import type { SparseVector } from "../utils/math";
+import type { EmbeddingMode, Mode, WorkerOptions } from "../types";
+import type { StageReporter } from "./progress";
+import type { VectorResult } from "./similarity";
+
+export const DEFAULT_EMBEDDING_WEIGHT = 0.5;
+
+export interface EmbeddingCoverage {
+  name: string;
+  mode: EmbeddingMode;
+  // Share of the terms (words in word mode) that have a vector (0–1)
+  coverage: number;
+}
+
+/**
+ * Replace or blend `result.vectors` with embedding vectors, reporting the
+ * `vectorising` stage. Segment modes need `result.terms`; word mode looks up
+ * the display labels. Rows without any known term get an empty embedding.
+ */
+export function applyEmbeddings(
+  result: VectorResult,
+  mode: Mode,
+  embeddings: WordEmbeddings,
+  options: WorkerOptions = {},
+  report?: StageReporter,
+): { result: VectorResult; coverage: EmbeddingCoverage } {
+  const embeddingMode = options.embeddingMode ?? "average";
+  report?.(
+    "vectorising",
+    0,
+    embeddingMode === "blend"
+      ? `Blending with word vectors from ${embeddings.name}...`
+      : `Averaging word vectors from ${embeddings.name}...`,
+  );
+
+  // Word mode: one term per row; segment modes: one term per dimension
+  const byRow = mode === "word";
+  const terms = byRow ? result.labels : result.terms;
+  if (!terms)
+    throw new Error("These vectors have no terms to look word vectors up for");
+  const termVectors = terms.map((term) => termEmbedding(embeddings, term));
+  const known = termVectors.filter((v) => v !== null).length;
+
+  const alpha = Math.min(
+    1,
+    Math.max(0, options.embeddingWeight ?? DEFAULT_EMBEDDING_WEIGHT),
+  );
+  const blend = embeddingMode === "blend";
+  // Embedding dimensions go after the lexical ones when blending
+  let offset = 0;
+  if (blend) {
+    for (const { indices } of result.vectors) {
+      if (indices.length)
+        offset = Math.max(offset, indices[indices.length - 1] + 1);
+    }
+  }
+
+  const vectors = result.vectors.map((vector, i): SparseVector => {
+    const sum = new Float64Array(embeddings.dimensions);
+    if (byRow) {
+      const own = termVectors[i];
+      if (own) sum.set(own);
+    } else {
+      for (let e = 0; e < vector.indices.length; e++) {
+        const v = termVectors[vector.indices[e]];
+        if (!v) continue;
+        const w = vector.values[e];
+        for (let d = 0; d < sum.length; d++) sum[d] += w * v[d];
+      }
+    }
+    report?.("vectorising", (i + 1) / result.vectors.length);
+    if (!blend) return denseToSparse(sum);
+
+    const lexical = scaled(vector, Math.sqrt(1 - alpha));
+    const semantic = denseToSparse(sum, offset, Math.sqrt(alpha));
+    return {
+      indices: Uint32Array.from([...lexical.indices, ...semantic.indices]),
+      values: Float64Array.from([...lexical.values, ...semantic.values]),
+    };
+  });
+
+  const coverage = {
+    name: embeddings.name,
+    mode: embeddingMode,
+    coverage: terms.length ? known / terms.length : 0,
+  };
+  report?.(
+    "vectorising",
+    1,
+    `Word vectors cover ${(coverage.coverage * 100).toFixed(1)}% of ${byRow ? "words" : "terms"}`,
+  );
+  // The dimensions are no longer (only) terms
+  return { result: { ...result, vectors, terms: undefined }, coverage };
+}
+
+// `vector` at unit length times `length`
+function scaled(vector: SparseVector, length: number): SparseVector {
+  let norm = 0;
+  for (let e = 0; e < vector.values.length; e++)
+    norm += vector.values[e] * vector.values[e];
+  if (norm === 0 || length === 0)
+    return { indices: new Uint32Array(0), values: new Float64Array(0) };
+  const factor = length / Math.sqrt(norm);
+  return {
+    indices: vector.indices,
+    values: vector.values.map((v) => v * factor),
+  };
+}
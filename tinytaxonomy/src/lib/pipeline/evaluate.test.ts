@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_SWEEP_RUNS,
+  bestSweepRun,
+  evaluateTree,
+  goldLabelOf,
+  optionCombinations,
+  parseGoldLabels,
+  partitionAgreement,
+  type SweepRun,
+} from "./evaluate";
+import { sweepOptions } from "./index";
+import type { TaxonomyNode } from "../types";
+
+describe("partitionAgreement", () => {
+  it("scores a split class: ARI 4/7, NMI 0.8, purity 1", () => {
+    // Clusters [a a][b][b] against classes [a a b b]
+    const scores = partitionAgreement([
+      [2, 0],
+      [0, 1],
+      [0, 1],
+    ]);
+    expect(scores.adjustedRandIndex).toBeCloseTo(4 / 7, 12);
+    expect(scores.normalizedMutualInformation).toBeCloseTo(0.8, 12);
+    expect(scores.purity).toBe(1);
+    expect(scores.labelled).toBe(4);
+  });
+
+  it("gives 1 for the same grouping and nothing for an unrelated one", () => {
+    const same = partitionAgreement([
+      [3, 0],
+      [0, 2],
+    ]);
+    expect([
+      same.adjustedRandIndex,
+      same.normalizedMutualInformation,
+      same.purity,
+    ]).toEqual([1, 1, 1]);
+
+    const unrelated = partitionAgreement([
+      [1, 1],
+      [1, 1],
+    ]);
+    expect(unrelated.adjustedRandIndex).toBeCloseTo(-0.5, 12);
+    expect(unrelated.normalizedMutualInformation).toBeCloseTo(0, 12);
+    expect(unrelated.purity).toBe(0.5);
+  });
+
+  it("scores an empty table as zero", () => {
+    expect(partitionAgreement([[0, 0]])).toEqual({
+      adjustedRandIndex: 0,
+      normalizedMutualInformation: 0,
+      purity: 0,
+      labelled: 0,
+    });
+  });
+});
+
+describe("gold labels", () => {
+  it("reads one label per line, or text<TAB>label lines", () => {
+    expect(parseGoldLabels("pets\r\n\r\nfish\n\n")).toEqual({
+      by: "index",
+      labels: ["pets", null, "fish"],
+    });
+    expect(parseGoldLabels("Big  Cat\tpets\ntrout\tfish\n")).toEqual({
+      by: "text",
+      labels: { "big cat": "pets", trout: "fish" },
+    });
+    expect(() => parseGoldLabels("\n \n")).toThrow(/empty/);
+  });
+
+  it("finds a leaf label by index, text or row column", () => {
+    const leaf: TaxonomyNode = {
+      name: "Trout",
+      fullText: "Trout",
+      index: 1,
+      metadata: { kind: "fish" },
+    };
+    expect(goldLabelOf(leaf, { by: "index", labels: ["x", " fish "] })).toBe(
+      "fish",
+    );
+    expect(goldLabelOf(leaf, { by: "text", labels: { trout: "fish" } })).toBe(
+      "fish",
+    );
+    expect(goldLabelOf(leaf, { by: "column", column: "kind" })).toBe("fish");
+    expect(goldLabelOf(leaf, { by: "column", column: "other" })).toBeNull();
+  });
+
+  it("builds the confusion matrix of the top-level clusters, skipping unlabelled leaves", () => {
+    const leaf = (index: number): TaxonomyNode => ({ name: `${index}`, index });
+    const tree: TaxonomyNode = {
+      name: "root",
+      children: [
+        {
+          name: "a",
+          clusterLabel: "first",
+          children: [leaf(0), { name: "inner", children: [leaf(1), leaf(2)] }],
+        },
+        { name: "b", children: [leaf(3), leaf(4)] },
+      ],
+    };
+    const evaluation = evaluateTree(tree, {
+      by: "index",
+      labels: ["pets", "pets", "fish", "fish", null],
+    });
+    expect(evaluation.clusters).toEqual(["first", "b"]);
+    // Most frequent label first, ties alphabetically
+    expect(evaluation.classes).toEqual(["fish", "pets"]);
+    expect(evaluation.confusion).toEqual([
+      [1, 2],
+      [1, 0],
+    ]);
+    expect([evaluation.labelled, evaluation.leaves]).toEqual([4, 5]);
+    expect(evaluation.purity).toBe(0.75);
+  });
+});
+
+describe("option grids", () => {
+  it("runs every combination and refuses oversized grids", () => {
+    expect(
+      optionCombinations({
+        linkage: ["single", "ward"],
+        enableNgrams: [true, false],
+        metric: [],
+      }),
+    ).toEqual([
+      { linkage: "single", enableNgrams: true },
+      { linkage: "single", enableNgrams: false },
+      { linkage: "ward", enableNgrams: true },
+      { linkage: "ward", enableNgrams: false },
+    ]);
+    expect(optionCombinations({})).toEqual([{}]);
+    const boosts = Array.from({ length: MAX_SWEEP_RUNS + 1 }, (_, i) => i);
+    expect(() => optionCombinations({ nounPhraseBoost: boosts })).toThrow(
+      /at most/,
+    );
+  });
+
+  it("ranks runs by ARI, then NMI", () => {
+    const run = (ari: number, nmi: number): SweepRun => ({
+      varied: {},
+      evaluation: {
+        ...partitionAgreement([[1]]),
+        adjustedRandIndex: ari,
+        normalizedMutualInformation: nmi,
+        leaves: 1,
+        clusters: [],
+        classes: [],
+        confusion: [],
+      },
+    });
+    const runs = [
+      run(0.5, 0.1),
+      run(0.7, 0.2),
+      run(0.7, 0.4),
+      { varied: {}, error: "failed" },
+    ];
+    expect(bestSweepRun(runs)).toBe(runs[2]);
+    expect(bestSweepRun([{ varied: {}, error: "failed" }])).toBeNull();
+  });
+});
+
+const TEXT =
+  "Cats purr on the sofa. Kittens purr in the sun. Dogs bark at the postman. Puppies bark at night. Trout swim upstream. Salmon swim to sea.";
+
+describe("sweepOptions", () => {
+  it("scores runs by cluster quality when there are no gold labels", async () => {
+    const runs = await sweepOptions(
+      TEXT,
+      "sentence",
+      {},
+      { weighting: ["tfidf", "binary"], metric: ["cosine", "jaccard"] },
+      null,
+    );
+    expect(runs.map((run) => run.varied)).toEqual([
+      { weighting: "tfidf", metric: "cosine" },
+      { weighting: "tfidf", metric: "jaccard" },
+      { weighting: "binary", metric: "cosine" },
+      { weighting: "binary", metric: "jaccard" },
+    ]);
+    for (const run of runs) {
+      expect(run.evaluation).toBeUndefined();
+      expect(run.quality!.clusters).toBeGreaterThan(0);
+      expect(run.quality!.silhouette).toBeGreaterThanOrEqual(-1);
+      expect(run.quality!.silhouette).toBeLessThanOrEqual(1);
+    }
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Evaluation against hand-labelled (gold) categories.
+ *
+ * The top-level clusters of a tree are compared with gold labels per leaf:
+ * Adjusted Rand Index (pair agreement corrected for chance: 0 ≈ random,
+ * 1 = identical), normalised mutual information (arithmetic mean of the
+ * entropies, 0–1) and purity (share of leaves in their cluster's majority
+ * label), plus the cluster × label confusion matrix. Leaves without a gold
+ * label are left out. Nothing here touches the NLP libraries, so the page
+ * can score the displayed tree itself.
+ */
+
+import type { TaxonomyNode, WorkerOptions } from "../types";
+
+/**
+ * Where the gold label of a leaf comes from: one label per segment in input
+ * order, a table of leaf texts (e.g. words) and labels, or another column
+ * of the rows in row mode.
+ */
+export type GoldLabels =
+  | { by: "index"; labels: (string | null)[] }
+  | { by: "text"; labels: Record<string, string> }
+  | { by: "column"; column: string };
+
+export interface GoldEvaluation {
+  adjustedRandIndex: number;
+  normalizedMutualInformation: number;
+  purity: number;
+  // Leaves that have a gold label, out of `leaves`
+  labelled: number;
+  leaves: number;
+  // Row labels (top-level clusters) and column labels (gold labels, most frequent first)
+  clusters: string[];
+  classes: string[];
+  // confusion[cluster][class] = number of leaves
+  confusion: number[][];
+}
+
+/**
+ * Read a gold label file: `text<TAB>label` lines map leaf texts to labels,
+ * otherwise every line is the label of the segment at that position (an
+ * empty line leaves it unlabelled).
+ */
+export function parseGoldLabels(text: string): GoldLabels {
+  const lines = text.replace(/\r\n?/g, "\n").replace(/\n+$/, "").split("\n");
+  const filled = lines.filter((line) => line.trim() !== "");
+  if (filled.length === 0) throw new Error("The label file is empty");
+
+  if (filled.every((line) => line.includes("\t"))) {
+    const labels: Record<string, string> = {};
+    for (const line of filled) {
+      const tab = line.lastIndexOf("\t");
+      const key = normalizeText(line.slice(0, tab));
+      const label = line.slice(tab + 1).trim();
+      if (key && label) labels[key] = label;
+    }
+    return { by: "text", labels };
+  }
+  return { by: "index", labels: lines.map((line) => line.trim() || null) };
+}
+
+function normalizeText(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export function goldLabelOf(
+  leaf: TaxonomyNode,
+  gold: GoldLabels,
+): string | null {
+  let label: string | null | undefined;
+  if (gold.by === "index")
+    label = leaf.index !== undefined ? gold.labels[leaf.index] : undefined;
+  else if (gold.by === "text")
+    label = gold.labels[normalizeText(leaf.fullText ?? leaf.name)];
+  else label = leaf.metadata?.[gold.column];
+  return label?.trim() || null;
+}
+
+function leavesOf(node: TaxonomyNode): TaxonomyNode[] {
+  const children = node.children ?? node._children ?? [];
+  return children.length ? children.flatMap(leavesOf) : [node];
+}
+
+// n choose 2
+function pairs(n: number): number {
+  return (n * (n - 1)) / 2;
+}
+
+function entropy(counts: number[], total: number): number {
+  let h = 0;
+  for (const c of counts) if (c > 0) h -= (c / total) * Math.log(c / total);
+  return h;
+}
+
+/**
+ * Compare the top-level clusters of `tree` (the children of its root, as
+ * the silhouettes and flat exports use) with the gold labels.
+ */
+export function evaluateTree(
+  tree: TaxonomyNode,
+  gold: GoldLabels,
+): GoldEvaluation {
+  const children = tree.children ?? tree._children ?? [];
+  const roots = children.length ? children : [tree];
+  const classIndex = new Map<string, number>();
+  const counts: number[][] = [];
+  let leaves = 0;
+  roots.forEach((root, c) => {
+    counts[c] = [];
+    for (const leaf of leavesOf(root)) {
+      leaves++;
+      const label = goldLabelOf(leaf, gold);
+      if (label === null) continue;
+      if (!classIndex.has(label)) classIndex.set(label, classIndex.size);
+      const j = classIndex.get(label)!;
+      counts[c][j] = (counts[c][j] ?? 0) + 1;
+    }
+  });
+
+  // Most frequent gold label first
+  const classTotals = [...classIndex].map(([label, j]) => ({
+    label,
+    j,
+    total: counts.reduce((sum, row) => sum + (row[j] ?? 0), 0),
+  }));
+  classTotals.sort(
+    (a, b) => b.total - a.total || a.label.localeCompare(b.label),
+  );
+  const confusion = counts.map((row) =>
+    classTotals.map(({ j }) => row[j] ?? 0),
+  );
+  const scores = partitionAgreement(confusion);
+
+  return {
+    ...scores,
+    leaves,
+    clusters: roots.map((root) => root.clusterLabel ?? root.name),
+    classes: classTotals.map(({ label }) => label),
+    confusion,
+  };
+}
+
+/**
+ * ARI, NMI and purity of a contingency table (clusters × classes).
+ */
+export function partitionAgreement(confusion: number[][]): {
+  adjustedRandIndex: number;
+  normalizedMutualInformation: number;
+  purity: number;
+  labelled: number;
+} {
+  const rowTotals = confusion.map((row) => row.reduce((a, b) => a + b, 0));
+  const columnTotals = (confusion[0] ?? []).map((_, j) =>
+    confusion.reduce((sum, row) => sum + row[j], 0),
+  );
+  const total = rowTotals.reduce((a, b) => a + b, 0);
+  if (total === 0)
+    return {
+      adjustedRandIndex: 0,
+      normalizedMutualInformation: 0,
+      purity: 0,
+      labelled: 0,
+    };
+
+  let samePairs = 0;
+  let mutualInformation = 0;
+  let majority = 0;
+  confusion.forEach((row, i) => {
+    majority += Math.max(0, ...row);
+    row.forEach((n, j) => {
+      samePairs += pairs(n);
+      if (n > 0)
+        mutualInformation +=
+          (n / total) *
+          Math.log((n * total) / (rowTotals[i] * columnTotals[j]));
+    });
+  });
+
+  const rowPairs = rowTotals.reduce((sum, n) => sum + pairs(n), 0);
+  const columnPairs = columnTotals.reduce((sum, n) => sum + pairs(n), 0);
+  const expected = total > 1 ? (rowPairs * columnPairs) / pairs(total) : 0;
+  const maximum = (rowPairs + columnPairs) / 2;
+  // Both partitions trivial (one group, or all singletons): a perfect match
+  const adjustedRandIndex =
+    maximum === expected ? 1 : (samePairs - expected) / (maximum - expected);
+
+  const entropies = entropy(rowTotals, total) + entropy(columnTotals, total);
+  const normalizedMutualInformation =
+    entropies > 0 ? Math.max(0, mutualInformation) / (entropies / 2) : 1;
+
+  return {
+    adjustedRandIndex,
+    normalizedMutualInformation,
+    purity: majority / total,
+    labelled: total,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Option sweeps
+// ---------------------------------------------------------------------------
+
+// Values to try per option; every combination is one run
+export type OptionGrid = { [K in keyof WorkerOptions]?: WorkerOptions[K][] };
+
+// Upper bound on the runs of one sweep
+export const MAX_SWEEP_RUNS = 48;
+
+// Scores of a run's tree that need no gold labels (see `ClusterMetrics`)
+export interface RunQuality {
+  clusters: number;
+  copheneticCorrelation: number;
+  silhouette: number;
+}
+
+export interface SweepRun {
+  // The option values of this run that the grid varies
+  varied: WorkerOptions;
+  evaluation?: GoldEvaluation;
+  // Sweeps without gold labels; missing for approximated runs
+  quality?: RunQuality;
+  error?: string;
+}
+
+/**
+ * Every combination of the grid's values (the cartesian product), as the
+ * varied options of each run. Throws above `MAX_SWEEP_RUNS`.
+ */
+export function optionCombinations(grid: OptionGrid): WorkerOptions[] {
+  const entries = Object.entries(grid).filter(
+    ([, values]) => values && values.length > 0,
+  ) as [keyof WorkerOptions, unknown[]][];
+  const total = entries.reduce((n, [, values]) => n * values.length, 1);
+  if (total > MAX_SWEEP_RUNS) {
+    throw new Error(
+      `That sweep has ${total} combinations; at most ${MAX_SWEEP_RUNS} are allowed`,
+    );
+  }
+  let combinations: WorkerOptions[] = [{}];
+  for (const [key, values] of entries) {
+    combinations = combinations.flatMap((combination) =>
+      values.map((value) => ({ ...combination, [key]: value })),
+    );
+  }
+  return combinations;
+}
+
+// Run with the highest Adjusted Rand Index (ties: higher NMI)
+export function bestSweepRun(runs: SweepRun[]): SweepRun | null {
+  let best: SweepRun | null = null;
+  for (const run of runs) {
+    const e = run.evaluation;
+    if (!e) continue;
+    const top = best?.evaluation;
+    if (
+      !top ||
+      e.adjustedRandIndex > top.adjustedRandIndex ||
+      (e.adjustedRandIndex === top.adjustedRandIndex &&
+        e.normalizedMutualInformation > top.normalizedMutualInformation)
+    ) {
+      best = run;
+    }
+  }
+  return best;
+}
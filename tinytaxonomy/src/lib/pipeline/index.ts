@@ -0,0 +1,508 @@
+/**
+ * Headless taxonomy pipeline
+ *
+ * Text → segments → distance matrix → hierarchical clustering → TaxonomyNode.
+ * Has no DOM or worker dependencies so it can run in the cluster worker, in
+ * Node scripts and in tests alike.
+ */
+
+import { segmentText, type SegmentationResult } from "./segment";
+import { calculateDistanceMatrix, calculateVectors } from "./similarity";
+import { clusterMatrix, type DendrogramNode } from "./cluster";
+import {
+  collectHeights,
+  computeEffectiveCutoff,
+  convertToD3,
+  convertToD3WithCutoff,
+  convertTopLevelToD3,
+} from "./tree";
+import { splitToCount, type DendrogramCut } from "./cut";
+import { dendrogramMetrics, scoreTree, type ClusterMetrics } from "./metrics";
+import {
+  evaluateTree,
+  optionCombinations,
+  type GoldLabels,
+  type OptionGrid,
+  type SweepRun,
+} from "./evaluate";
+import { createStageReporter, type StageReporter } from "./progress";
+import { approximateCluster, shouldApproximate } from "./approximate";
+import type { LsaSummary } from "./lsa";
+import type { EmbeddingCoverage } from "./embeddings";
+import type { WordEmbeddings } from "../utils/embeddings";
+import type { DistanceMatrix, SparseVector } from "../utils/math";
+import type {
+  DistanceMetric,
+  Mode,
+  WorkerOptions,
+  TaxonomyNode,
+  ProgressCallback,
+} from "../types";
+
+export { segmentText, segmentRows, type SegmentationResult } from "./segment";
+export {
+  calculateVectors,
+  calculateDistanceMatrix,
+  calculateSimilarityMatrix,
+  calculateSegmentVectors,
+  calculateSegmentSimilarityMatrix,
+  calculateEnhancedSegmentVectors,
+  calculateEnhancedSegmentSimilarityMatrix,
+  calculateWordVectors,
+  calculateWordSimilarityMatrix,
+  toEnhancedPipelineOptions,
+  DEFAULT_CONTEXT_WINDOW,
+  type VectorResult,
+  type SimilarityResult,
+} from "./similarity";
+export {
+  clusterMatrix,
+  agnes,
+  diana,
+  type DendrogramNode,
+  type ClusterProgress,
+} from "./cluster";
+export { createStageReporter, type StageReporter } from "./progress";
+export { classifyTexts, type Classification } from "./classify";
+export { projectLsa, DEFAULT_LSA_DIMENSIONS, type LsaSummary } from "./lsa";
+export {
+  applyEmbeddings,
+  DEFAULT_EMBEDDING_WEIGHT,
+  type EmbeddingCoverage,
+} from "./embeddings";
+export {
+  parseGoldLabels,
+  goldLabelOf,
+  evaluateTree,
+  partitionAgreement,
+  optionCombinations,
+  bestSweepRun,
+  MAX_SWEEP_RUNS,
+  type GoldLabels,
+  type GoldEvaluation,
+  type OptionGrid,
+  type SweepRun,
+  type RunQuality,
+} from "./evaluate";
+export {
+  copheneticCorrelation,
+  silhouettes,
+  dendrogramMetrics,
+  scoreTree,
+  MAX_BEST_K,
+  type ClusterMetrics,
+  type DendrogramMetrics,
+  type ClusterScore,
+  type BestKPoint,
+} from "./metrics";
+export {
+  approximateCluster,
+  miniBatchKMeans,
+  shouldApproximate,
+  defaultMicroClusterCount,
+  DEFAULT_APPROXIMATE_THRESHOLD,
+  type MicroClustering,
+  type KMeansOptions,
+} from "./approximate";
+
+/**
+ * Everything a finished run produced: the dendrogram and labels are kept so
+ * the tree can be re-cut or new texts classified without re-running the NLP.
+ */
+export interface TaxonomyAnalysis {
+  mode: Mode;
+  options: WorkerOptions;
+  // Clustered units in matrix order (stems in word mode)
+  segments: string[];
+  labels: string[];
+  metadata?: Record<string, string>[];
+  dendrogram: DendrogramNode;
+  tree: TaxonomyNode;
+  // Merge height the tree was cut at (see `autoCutoffHeight`)
+  cutoff?: number;
+  // Set when the vectors were projected with LSA (`enableLsa`)
+  lsa?: LsaSummary;
+  // Set when word vectors were used (`embeddings`)
+  embeddings?: EmbeddingCoverage;
+  // Quality of the dendrogram and its cut; needs the full distance matrix (`enableMetrics`)
+  metrics?: ClusterMetrics;
+  // Kept with the metrics, to score re-cuts
+  matrix?: DistanceMatrix;
+}
+
+export {
+  collectHeights,
+  computeEffectiveCutoff,
+  convertToD3,
+  convertToD3WithCutoff,
+  convertTopLevelToD3,
+} from "./tree";
+export {
+  toLinkage,
+  sameLinkage,
+  mergeHeights,
+  heightAtPercentile,
+  clustersAtHeight,
+  splitToCount,
+  type DendrogramCut,
+  type DendrogramLinkage,
+} from "./cut";
+
+/**
+ * Merge height of the automatic dendrogram cut, or undefined when the tree
+ * is not cut (auto cutoff or enhanced pipeline off, or nothing merged).
+ */
+export function autoCutoffHeight(
+  dendrogram: DendrogramNode,
+  options: WorkerOptions = {},
+): number | undefined {
+  if (
+    options.enableEnhancedPipeline === false ||
+    options.enableAutoCutoff === false
+  )
+    return undefined;
+  const heights: number[] = [];
+  collectHeights(dendrogram, heights);
+  if (heights.length === 0) return undefined;
+  return computeEffectiveCutoff(heights, options.cutoffPercentile ?? 0.85);
+}
+
+/**
+ * Convert a clustering result into the D3 tree, cutting the dendrogram at
+ * natural boundaries when the enhanced pipeline and auto cutoff are enabled.
+ */
+export function buildTree(
+  clusterResult: any,
+  labels: string[],
+  options: WorkerOptions = {},
+  report?: StageReporter,
+  metadata?: Record<string, string>[],
+): TaxonomyNode {
+  const effectiveCutoff = autoCutoffHeight(clusterResult, options);
+  if (effectiveCutoff === undefined) {
+    return convertToD3(clusterResult, labels, metadata);
+  }
+
+  const percentile = options.cutoffPercentile ?? 0.85;
+  report?.(
+    "labelling",
+    0,
+    `Applying dendrogram cutoff at H=${effectiveCutoff.toFixed(3)} (${(percentile * 100).toFixed(0)}th percentile)...`,
+  );
+
+  return convertToD3WithCutoff(
+    clusterResult,
+    labels,
+    effectiveCutoff,
+    metadata,
+  );
+}
+
+/**
+ * Build a taxonomy tree from raw text. Throws if the input does not yield
+ * enough segments to cluster, or if `options.embeddings` names a set other
+ * than `embeddings`.
+ */
+export function buildTaxonomy(
+  text: string,
+  mode: Mode,
+  options: WorkerOptions = {},
+  onProgress?: ProgressCallback,
+  embeddings?: WordEmbeddings,
+): TaxonomyNode {
+  return analyseText(text, mode, options, onProgress, embeddings).tree;
+}
+
+// Vectorised input, before the distance matrix
+interface PreparedAnalysis {
+  mode: Mode;
+  options: WorkerOptions;
+  segmentation: SegmentationResult;
+  vectors: SparseVector[];
+  labels: string[];
+  lsa?: LsaSummary;
+  embeddings?: EmbeddingCoverage;
+  // Large inputs go through micro-clusters instead of the full n² matrix
+  approximate: boolean;
+}
+
+/**
+ * Computes the distance matrix of the vectors under `metric`, e.g. on a
+ * worker pool (see `analyseTextAsync`).
+ */
+export type DistanceComputer = (
+  vectors: SparseVector[],
+  metric: DistanceMetric,
+  onProgress?: (fraction: number) => void,
+) => Promise<DistanceMatrix>;
+
+function prepareAnalysis(
+  text: string,
+  mode: Mode,
+  options: WorkerOptions,
+  report: StageReporter,
+  embeddings?: WordEmbeddings,
+): PreparedAnalysis {
+  report("tokenising", 0, "Tokenizing and cleaning text...");
+  const segmentation = segmentText(text, mode, options, (f) =>
+    report("tokenising", f),
+  );
+
+  if (segmentation.segments.length < 2) {
+    throw new Error(
+      "Not enough data to cluster (need at least 2 segments/words). Try adding more text.",
+    );
+  }
+
+  const {
+    vectors,
+    labels,
+    lsa,
+    embeddings: coverage,
+  } = calculateVectors(segmentation, mode, options, report, embeddings);
+  return {
+    mode,
+    options,
+    segmentation,
+    vectors,
+    labels,
+    lsa,
+    embeddings: coverage,
+    approximate: shouldApproximate(vectors.length, options),
+  };
+}
+
+function completeAnalysis(
+  prepared: PreparedAnalysis,
+  matrix: DistanceMatrix | null,
+  report: StageReporter,
+): TaxonomyAnalysis {
+  const { mode, options, segmentation, vectors, labels, lsa, embeddings } =
+    prepared;
+
+  let dendrogram: DendrogramNode;
+  if (!matrix) {
+    dendrogram = approximateCluster(vectors, options, report);
+  } else {
+    report(
+      "clustering",
+      0,
+      options.algorithm === "divisive"
+        ? "Running divisive clustering (DIANA)..."
+        : `Running hierarchical clustering (${options.linkage ?? "average"} linkage)...`,
+    );
+    dendrogram = clusterMatrix(matrix, options, (f) => report("clustering", f));
+  }
+
+  report("labelling", 0, "Generating taxonomy tree...");
+  const tree = buildTree(
+    dendrogram,
+    labels,
+    options,
+    report,
+    segmentation.metadata,
+  );
+  let metrics: ClusterMetrics | undefined;
+  let scoredMatrix: DistanceMatrix | undefined;
+  if (matrix && options.enableMetrics !== false) {
+    report(
+      "labelling",
+      0.5,
+      "Scoring the clusters (cophenetic correlation, silhouettes)...",
+    );
+    metrics = scoreTree(tree, matrix, dendrogramMetrics(dendrogram, matrix));
+    scoredMatrix = matrix;
+  }
+  report("labelling", 1, "Done");
+  return {
+    mode,
+    options,
+    segments: segmentation.segments,
+    labels,
+    metadata: segmentation.metadata,
+    dendrogram,
+    tree,
+    cutoff: autoCutoffHeight(dendrogram, options),
+    lsa,
+    embeddings,
+    metrics,
+    matrix: scoredMatrix,
+  };
+}
+
+/**
+ * Run the full pipeline and keep its intermediate results (see
+ * `TaxonomyAnalysis`).
+ */
+export function analyseText(
+  text: string,
+  mode: Mode,
+  options: WorkerOptions = {},
+  onProgress?: ProgressCallback,
+  embeddings?: WordEmbeddings,
+): TaxonomyAnalysis {
+  const report = createStageReporter(onProgress);
+  const prepared = prepareAnalysis(text, mode, options, report, embeddings);
+  const matrix = prepared.approximate
+    ? null
+    : calculateDistanceMatrix(
+        prepared.vectors,
+        report,
+        mode === "word" ? "words" : "segments",
+        options.metric,
+      );
+  return completeAnalysis(prepared, matrix, report);
+}
+
+/**
+ * `analyseText` with the distance matrix delegated to `computeDistances`,
+ * so it can run outside the calling thread.
+ */
+export async function analyseTextAsync(
+  text: string,
+  mode: Mode,
+  options: WorkerOptions = {},
+  onProgress: ProgressCallback | undefined,
+  computeDistances: DistanceComputer,
+  embeddings?: WordEmbeddings,
+): Promise<TaxonomyAnalysis> {
+  const report = createStageReporter(onProgress);
+  const prepared = prepareAnalysis(text, mode, options, report, embeddings);
+  let matrix: DistanceMatrix | null = null;
+  if (!prepared.approximate) {
+    const metric = options.metric ?? "cosine";
+    report(
+      "distances",
+      0,
+      `Calculating ${metric} distances between ${prepared.vectors.length} ${mode === "word" ? "words" : "segments"}...`,
+    );
+    matrix = await computeDistances(prepared.vectors, metric, (f) =>
+      report("distances", f),
+    );
+  }
+  return completeAnalysis(prepared, matrix, report);
+}
+
+/**
+ * Rebuild the tree of a finished analysis with a different dendrogram cut.
+ */
+export function recutTaxonomy(
+  analysis: TaxonomyAnalysis,
+  cut: DendrogramCut,
+): TaxonomyNode {
+  const { dendrogram, labels, metadata } = analysis;
+  if (cut.by === "none") return convertToD3(dendrogram, labels, metadata);
+  if (cut.by === "height")
+    return convertToD3WithCutoff(dendrogram, labels, cut.height, metadata);
+  if (cut.by === "count") {
+    const subtrees = splitToCount(dendrogram, cut.count);
+    const height = Math.max(0, ...subtrees.map((subtree) => subtree.height));
+    return convertTopLevelToD3(dendrogram, subtrees, labels, height, metadata);
+  }
+
+  const heights: number[] = [];
+  collectHeights(dendrogram, heights);
+  if (heights.length === 0) return convertToD3(dendrogram, labels, metadata);
+  return convertToD3WithCutoff(
+    dendrogram,
+    labels,
+    computeEffectiveCutoff(heights, cut.percentile),
+    metadata,
+  );
+}
+
+/**
+ * Score the top-level clusters of a re-cut tree (see `scoreTree`);
+ * undefined when the analysis has no metrics.
+ */
+export function scoreCut(
+  analysis: TaxonomyAnalysis,
+  tree: TaxonomyNode,
+): ClusterMetrics | undefined {
+  const { matrix, metrics } = analysis;
+  return matrix && metrics ? scoreTree(tree, matrix, metrics) : undefined;
+}
+
+export interface SweepSettings {
+  // Cut every tree into as many top-level clusters as there are gold labels, instead of its own cutoff
+  matchGoldClasses?: boolean;
+  // Distance matrices off the calling thread, as in `analyseTextAsync`
+  computeDistances?: DistanceComputer;
+  embeddings?: WordEmbeddings;
+  // Progress over the whole sweep; messages name the run
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Run the pipeline once per combination of `grid` values on top of
+ * `options` and score each tree against `gold` (see `evaluateTree`), or
+ * without gold labels by its cophenetic correlation and silhouette, so
+ * weightings and metrics can be compared side by side. A run that fails
+ * records its error instead of stopping the sweep.
+ */
+export async function sweepOptions(
+  text: string,
+  mode: Mode,
+  options: WorkerOptions,
+  grid: OptionGrid,
+  gold: GoldLabels | null,
+  settings: SweepSettings = {},
+): Promise<SweepRun[]> {
+  const { matchGoldClasses, computeDistances, embeddings, onProgress } =
+    settings;
+  const combinations = optionCombinations(grid);
+  const runs: SweepRun[] = [];
+  for (const [i, varied] of combinations.entries()) {
+    const progress: ProgressCallback | undefined =
+      onProgress &&
+      ((update) =>
+        onProgress({
+          ...update,
+          fraction: (i + update.fraction) / combinations.length,
+          message: `Run ${i + 1}/${combinations.length}: ${update.message}`,
+        }));
+    // With gold labels the quality scores are not needed and cost a pass over the distances
+    const runOptions = { ...options, ...varied, enableMetrics: !gold };
+    try {
+      const analysis = computeDistances
+        ? await analyseTextAsync(
+            text,
+            mode,
+            runOptions,
+            progress,
+            computeDistances,
+            embeddings,
+          )
+        : analyseText(text, mode, runOptions, progress, embeddings);
+      if (!gold) {
+        const { metrics } = analysis;
+        runs.push({
+          varied,
+          quality: metrics && {
+            clusters: metrics.clusters.length,
+            copheneticCorrelation: metrics.copheneticCorrelation,
+            silhouette: metrics.silhouette,
+          },
+        });
+        continue;
+      }
+      let evaluation = evaluateTree(analysis.tree, gold);
+      if (matchGoldClasses && evaluation.classes.length > 1) {
+        evaluation = evaluateTree(
+          recutTaxonomy(analysis, {
+            by: "count",
+            count: evaluation.classes.length,
+          }),
+          gold,
+        );
+      }
+      runs.push({ varied, evaluation });
+    } catch (err) {
+      runs.push({
+        varied,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return runs;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { projectLsa } from "./lsa";
+import { seededRandom, type SparseVector } from "../utils/math";
+
+// 25 segments over 40 terms
+function segmentVectors(): SparseVector[] {
+  const random = seededRandom(3);
+  return Array.from({ length: 25 }, () => {
+    const indices = [
+      ...new Set(Array.from({ length: 6 }, () => Math.floor(random() * 40))),
+    ].sort((a, b) => a - b);
+    return {
+      indices: Uint32Array.from(indices),
+      values: Float64Array.from(indices, () => random()),
+    };
+  });
+}
+
+describe("projectLsa", () => {
+  it("keeps the requested dimensions and reports their share of the variance", () => {
+    const { vectors, summary } = projectLsa(segmentVectors(), 8);
+    expect(summary.dimensions).toBe(8);
+    expect(vectors).toHaveLength(25);
+    expect(vectors.every((v) => v.indices.every((i) => i < 8))).toBe(true);
+    expect(summary.explainedVariance).toBeGreaterThan(0);
+    expect(summary.explainedVariance).toBeLessThan(1);
+  });
+
+  it("keeps no more dimensions than there are segments", () => {
+    const { summary } = projectLsa(segmentVectors().slice(0, 5));
+    expect(summary.dimensions).toBe(5);
+    expect(summary.explainedVariance).toBeCloseTo(1, 9);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Latent semantic analysis (LSA).
+ *
+ * Short segments often share no literal terms, so their TF-IDF vectors are
+ * orthogonal even when they are about the same thing. Projecting the
+ * segment × term matrix onto its top-k singular vectors maps terms that
+ * occur in similar contexts onto shared latent dimensions, so such segments
+ * get comparable vectors. In word mode the same projection smooths the
+ * (PPMI-weighted) co-occurrence vectors.
+ */
+
+import { truncatedSvd } from "../utils/svd";
+import type { SparseVector } from "../utils/math";
+import type { StageReporter } from "./progress";
+
+export const DEFAULT_LSA_DIMENSIONS = 100;
+
+export interface LsaSummary {
+  // Dimensions kept: at most k, the number of segments and the number of terms
+  dimensions: number;
+  // Share of the TF-IDF matrix's squared Frobenius norm the dimensions keep (0–1)
+  explainedVariance: number;
+}
+
+/**
+ * Replace `vectors` by their coordinates in the top-`k` latent dimensions,
+ * reporting the `vectorising` stage.
+ */
+export function projectLsa(
+  vectors: SparseVector[],
+  k = DEFAULT_LSA_DIMENSIONS,
+  report?: StageReporter,
+): { vectors: SparseVector[]; summary: LsaSummary } {
+  report?.("vectorising", 0, `Projecting onto ${k} latent dimensions (LSA)...`);
+  const svd = truncatedSvd(vectors, k, {}, (f) => report?.("vectorising", f));
+  const summary = {
+    dimensions: svd.singularValues.length,
+    explainedVariance: svd.explainedVariance,
+  };
+  report?.(
+    "vectorising",
+    1,
+    `LSA: ${summary.dimensions} dimensions keep ${(summary.explainedVariance * 100).toFixed(1)}% of the variance`,
+  );
+  return { vectors: svd.coordinates, summary };
+}
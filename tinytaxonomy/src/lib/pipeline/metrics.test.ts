@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import {
+  copheneticCorrelation,
+  dendrogramMetrics,
+  scoreTree,
+  silhouettes,
+} from "./metrics";
+import { agnes, type DendrogramNode } from "./cluster";
+import { fromDenseMatrix, getDistance } from "../utils/math";
+import type { TaxonomyNode } from "../types";
+
+// Two tight pairs far apart, then a looser third group
+const ROWS = [
+  [0, 1, 6, 7, 9],
+  [1, 0, 6, 6, 9],
+  [6, 6, 0, 2, 8],
+  [7, 6, 2, 0, 8],
+  [9, 9, 8, 8, 0],
+];
+const matrix = fromDenseMatrix(ROWS);
+
+function pearson(xs: number[], ys: number[]): number {
+  const mean = (v: number[]) => v.reduce((a, b) => a + b, 0) / v.length;
+  const [mx, my] = [mean(xs), mean(ys)];
+  const cov = xs.reduce((sum, x, i) => sum + (x - mx) * (ys[i] - my), 0);
+  const sd = (v: number[], m: number) =>
+    Math.sqrt(v.reduce((sum, x) => sum + (x - m) ** 2, 0));
+  return cov / (sd(xs, mx) * sd(ys, my));
+}
+
+// Height at which leaves i and j first share a cluster
+function mergeHeight(node: DendrogramNode, i: number, j: number): number {
+  const leaves = (n: DendrogramNode): number[] =>
+    n.isLeaf ? [n.index] : n.children.flatMap(leaves);
+  const child = node.children.find(
+    (c) => leaves(c).includes(i) && leaves(c).includes(j),
+  );
+  return child ? mergeHeight(child, i, j) : node.height;
+}
+
+describe("copheneticCorrelation", () => {
+  it("is the correlation between distances and merge heights", () => {
+    const tree = agnes(matrix, "average");
+    const distances: number[] = [];
+    const heights: number[] = [];
+    for (let i = 0; i < 5; i++) {
+      for (let j = i + 1; j < 5; j++) {
+        distances.push(getDistance(matrix, i, j));
+        heights.push(mergeHeight(tree, i, j));
+      }
+    }
+    expect(copheneticCorrelation(tree, matrix)).toBeCloseTo(
+      pearson(distances, heights),
+      12,
+    );
+  });
+
+  it("is 1 when the tree keeps the distances exactly", () => {
+    // An ultrametric: single linkage reproduces every distance as a merge height
+    const ultrametric = fromDenseMatrix([
+      [0, 1, 4, 4],
+      [1, 0, 4, 4],
+      [4, 4, 0, 2],
+      [4, 4, 2, 0],
+    ]);
+    expect(
+      copheneticCorrelation(agnes(ultrametric, "single"), ultrametric),
+    ).toBeCloseTo(1, 12);
+  });
+});
+
+describe("silhouettes", () => {
+  it("compares each leaf with its own and the nearest other cluster", () => {
+    const { leaves, clusters, average } = silhouettes(
+      matrix,
+      Int32Array.from([0, 0, 1, 1, 2]),
+      3,
+    );
+    // Leaf 0: a = 1, b = min((6 + 7) / 2, 9) = 6.5
+    expect(leaves[0]).toBeCloseTo((6.5 - 1) / 6.5);
+    // Leaf 2: a = 2, b = min(6, 8) = 6
+    expect(leaves[2]).toBeCloseTo(4 / 6);
+    // Singletons score 0
+    expect(leaves[4]).toBe(0);
+    expect(clusters[0]).toBeCloseTo((leaves[0] + leaves[1]) / 2);
+    expect(average).toBeCloseTo(leaves.reduce((a, b) => a + b, 0) / 5);
+  });
+
+  it("goes negative for a misplaced leaf", () => {
+    const { leaves } = silhouettes(matrix, Int32Array.from([0, 1, 1, 1, 1]), 2);
+    expect(leaves[1]).toBeLessThan(0);
+  });
+});
+
+describe("dendrogramMetrics", () => {
+  it("tries every k up to one less than the leaves and suggests the best", () => {
+    const metrics = dendrogramMetrics(agnes(matrix, "average"), matrix);
+    expect(metrics.bestK.map((p) => p.k)).toEqual([2, 3, 4]);
+    expect(metrics.suggestedK).toBe(3);
+  });
+});
+
+describe("scoreTree", () => {
+  const leaf = (index: number): TaxonomyNode => ({
+    name: `${index}`,
+    fullText: `${index}`,
+    index,
+    type: "leaf",
+  });
+  const base = dendrogramMetrics(agnes(matrix, "average"), matrix);
+
+  it("scores the top-level clusters and marks each leaf", () => {
+    const tree: TaxonomyNode = {
+      name: "root",
+      children: [
+        { name: "a", clusterLabel: "pair a", children: [leaf(0), leaf(1)] },
+        { name: "b", children: [leaf(2), leaf(3)] },
+        leaf(4),
+      ],
+    };
+    const scored = scoreTree(tree, matrix, base);
+    expect(scored.clusters.map(({ label, size }) => [label, size])).toEqual([
+      ["pair a", 2],
+      ["b", 2],
+      ["4", 1],
+    ]);
+    expect(scored.silhouette).toBeCloseTo(
+      silhouettes(matrix, Int32Array.from([0, 0, 1, 1, 2]), 3).average,
+    );
+    expect(tree.children![0].children![0].silhouette).toBeCloseTo(5.5 / 6.5);
+    expect(scored.suggestedK).toBe(base.suggestedK);
+  });
+
+  it("has no silhouette for a single top-level cluster", () => {
+    const scored = scoreTree(
+      {
+        name: "root",
+        children: [{ name: "all", children: [0, 1, 2, 3, 4].map(leaf) }],
+      },
+      matrix,
+      base,
+    );
+    expect(scored.silhouette).toBe(0);
+    expect(scored.clusters).toEqual([]);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Clustering quality metrics.
+ *
+ * Cophenetic correlation is the Pearson correlation between the input
+ * distances and the heights at which each pair of leaves first merges: how
+ * faithfully the dendrogram keeps the distances (1 = exactly). The
+ * silhouette of a leaf is (b − a) / max(a, b), with a its mean distance to
+ * the rest of its cluster and b to the nearest other cluster; it runs from
+ * −1 (closer to another cluster, probably misplaced) to 1, and is 0 for
+ * singletons. Both need the full distance matrix, so approximated runs go
+ * without.
+ */
+
+import { getDistance, type DistanceMatrix } from "../utils/math";
+import type { TaxonomyNode } from "../types";
+import type { DendrogramNode } from "./cluster";
+import { splitToCount, toLinkage } from "./cut";
+
+// Largest number of top-level clusters the best-k curve tries
+export const MAX_BEST_K = 15;
+
+export interface ClusterScore {
+  label: string;
+  size: number;
+  silhouette: number;
+}
+
+export interface BestKPoint {
+  k: number;
+  silhouette: number;
+}
+
+// Scores of the dendrogram itself, whatever the cut
+export interface DendrogramMetrics {
+  copheneticCorrelation: number;
+  // Average silhouette when the dendrogram is split into k = 2 … MAX_BEST_K clusters
+  bestK: BestKPoint[];
+  // k with the highest average silhouette
+  suggestedK: number | null;
+}
+
+// Scores of one cut: the top-level clusters of the tree
+export interface ClusterMetrics extends DendrogramMetrics {
+  silhouette: number;
+  clusters: ClusterScore[];
+}
+
+export function copheneticCorrelation(
+  dendrogram: DendrogramNode,
+  matrix: DistanceMatrix,
+): number {
+  const { parents, heights } = toLinkage(dendrogram);
+  const members: number[][] = [];
+  const children: number[][] = [];
+  let n = 0,
+    sx = 0,
+    sy = 0,
+    sxx = 0,
+    syy = 0,
+    sxy = 0;
+
+  // Children come before parents, so every cluster sees its members complete
+  for (let id = 0; id < parents.length; id++) {
+    const own = children[id];
+    if (!own) {
+      members[id] = [id];
+    } else {
+      const height = heights[id];
+      for (let a = 0; a < own.length; a++) {
+        for (let b = a + 1; b < own.length; b++) {
+          for (const i of members[own[a]]) {
+            for (const j of members[own[b]]) {
+              const d = getDistance(matrix, i, j);
+              n++;
+              sx += d;
+              sy += height;
+              sxx += d * d;
+              syy += height * height;
+              sxy += d * height;
+            }
+          }
+        }
+      }
+      members[id] = own.flatMap((child) => members[child]);
+      for (const child of own) members[child] = [];
+    }
+    if (parents[id] >= 0) (children[parents[id]] ??= []).push(id);
+  }
+
+  const covariance = n * sxy - sx * sy;
+  const spread = Math.sqrt((n * sxx - sx * sx) * (n * syy - sy * sy));
+  return spread > 0 ? covariance / spread : 0;
+}
+
+/**
+ * Silhouette of every leaf for the partition `assignment` (cluster number
+ * per row, 0 … clusterCount − 1), plus the mean per cluster and overall.
+ */
+export function silhouettes(
+  matrix: DistanceMatrix,
+  assignment: Int32Array,
+  clusterCount: number,
+): { leaves: Float64Array; clusters: number[]; average: number } {
+  const size = matrix.size;
+  const clusterSizes = new Array<number>(clusterCount).fill(0);
+  for (let i = 0; i < size; i++) clusterSizes[assignment[i]]++;
+
+  const leaves = new Float64Array(size);
+  const sums = new Float64Array(clusterCount);
+  for (let i = 0; i < size; i++) {
+    const own = assignment[i];
+    if (clusterSizes[own] < 2) continue;
+    sums.fill(0);
+    for (let j = 0; j < size; j++)
+      sums[assignment[j]] += getDistance(matrix, i, j);
+
+    const a = sums[own] / (clusterSizes[own] - 1);
+    let b = Infinity;
+    for (let c = 0; c < clusterCount; c++) {
+      if (c !== own && clusterSizes[c] > 0)
+        b = Math.min(b, sums[c] / clusterSizes[c]);
+    }
+    const spread = Math.max(a, b);
+    leaves[i] = Number.isFinite(b) && spread > 0 ? (b - a) / spread : 0;
+  }
+
+  const clusterTotals = new Array<number>(clusterCount).fill(0);
+  let total = 0;
+  for (let i = 0; i < size; i++) {
+    clusterTotals[assignment[i]] += leaves[i];
+    total += leaves[i];
+  }
+  return {
+    leaves,
+    clusters: clusterTotals.map((sum, c) =>
+      clusterSizes[c] ? sum / clusterSizes[c] : 0,
+    ),
+    average: size ? total / size : 0,
+  };
+}
+
+// Cluster number of every leaf below `roots`
+function assignLeaves<T>(
+  roots: T[],
+  size: number,
+  leafIndices: (root: T) => number[],
+): Int32Array {
+  const assignment = new Int32Array(size);
+  roots.forEach((root, c) => {
+    for (const index of leafIndices(root)) assignment[index] = c;
+  });
+  return assignment;
+}
+
+function dendrogramLeaves(node: DendrogramNode): number[] {
+  return node.isLeaf ? [node.index] : node.children.flatMap(dendrogramLeaves);
+}
+
+function treeLeaves(node: TaxonomyNode): number[] {
+  const children = node.children ?? node._children ?? [];
+  if (children.length === 0)
+    return node.index !== undefined ? [node.index] : [];
+  return children.flatMap(treeLeaves);
+}
+
+export function dendrogramMetrics(
+  dendrogram: DendrogramNode,
+  matrix: DistanceMatrix,
+  onProgress?: (fraction: number) => void,
+): DendrogramMetrics {
+  const cophenetic = copheneticCorrelation(dendrogram, matrix);
+  const maxK = Math.min(MAX_BEST_K, matrix.size - 1);
+  const bestK: BestKPoint[] = [];
+  for (let k = 2; k <= maxK; k++) {
+    const roots = splitToCount(dendrogram, k);
+    if (roots.length < k) break;
+    const assignment = assignLeaves(roots, matrix.size, dendrogramLeaves);
+    bestK.push({ k, silhouette: silhouettes(matrix, assignment, k).average });
+    onProgress?.((k - 1) / (maxK - 1));
+  }
+  const best = bestK.reduce<BestKPoint | null>(
+    (top, point) => (!top || point.silhouette > top.silhouette ? point : top),
+    null,
+  );
+  return {
+    copheneticCorrelation: cophenetic,
+    bestK,
+    suggestedK: best?.k ?? null,
+  };
+}
+
+/**
+ * Score the top-level clusters of `tree` (the children of its root) and
+ * store each leaf's silhouette on the leaf, for tooltips.
+ */
+export function scoreTree(
+  tree: TaxonomyNode,
+  matrix: DistanceMatrix,
+  base: DendrogramMetrics,
+): ClusterMetrics {
+  const roots = tree.children ?? tree._children ?? [];
+  if (roots.length < 2) return { ...base, silhouette: 0, clusters: [] };
+
+  const assignment = assignLeaves(roots, matrix.size, treeLeaves);
+  const scores = silhouettes(matrix, assignment, roots.length);
+  (function mark(node: TaxonomyNode) {
+    const children = node.children ?? node._children ?? [];
+    if (children.length === 0 && node.index !== undefined)
+      node.silhouette = scores.leaves[node.index];
+    children.forEach(mark);
+  })(tree);
+
+  return {
+    ...base,
+    silhouette: scores.average,
+    clusters: roots.map((root, c) => ({
+      label: root.clusterLabel ?? root.name,
+      size: treeLeaves(root).length,
+      silhouette: scores.clusters[c],
+    })),
+  };
+}
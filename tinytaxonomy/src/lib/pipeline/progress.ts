@@ -0,0 +1,61 @@
+import type { ProgressCallback, ProgressStage } from "../types";
+
+// Share of the whole run each stage accounts for, in pipeline order. Rough
+// timings on mid-sized inputs; they only need to keep the ETA plausible.
+const STAGE_WEIGHTS: Record<ProgressStage, number> = {
+  tokenising: 0.4,
+  vectorising: 0.05,
+  distances: 0.15,
+  clustering: 0.3,
+  labelling: 0.1,
+};
+
+const STAGE_STARTS = (() => {
+  const starts = {} as Record<ProgressStage, number>;
+  let total = 0;
+  for (const stage of Object.keys(STAGE_WEIGHTS) as ProgressStage[]) {
+    starts[stage] = total;
+    total += STAGE_WEIGHTS[stage];
+  }
+  return starts;
+})();
+
+// Smallest change in the overall fraction worth reporting from inner loops
+const MIN_STEP = 0.005;
+
+/**
+ * Reports progress within a stage. A message starts a new step and is always
+ * forwarded; bare fractions from inner loops are throttled.
+ */
+export type StageReporter = (
+  stage: ProgressStage,
+  stageFraction: number,
+  message?: string,
+) => void;
+
+/**
+ * Wrap a progress callback so pipeline stages can report their own
+ * fraction and have it mapped onto the whole run.
+ */
+export function createStageReporter(
+  onProgress?: ProgressCallback,
+): StageReporter {
+  if (!onProgress) return () => {};
+
+  let lastMessage = "";
+  let lastFraction = -1;
+  return (stage, stageFraction, message) => {
+    const clamped = Math.min(1, Math.max(0, stageFraction));
+    const fraction = STAGE_STARTS[stage] + STAGE_WEIGHTS[stage] * clamped;
+    if (message === undefined && fraction - lastFraction < MIN_STEP) return;
+
+    if (message !== undefined) lastMessage = message;
+    lastFraction = fraction;
+    onProgress({
+      stage,
+      stageFraction: clamped,
+      fraction,
+      message: lastMessage,
+    });
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { segmentText } from "./segment";
+
+const TEXT =
+  "Semantic analysis groups the analyses. Semantic analysis needs texts. The analyses of texts were quick. Cats chase mice.";
+
+describe("segmentText in word mode", () => {
+  it("makes lemmas and frequent n-grams the leaves, labelled with their commonest surface form", () => {
+    const { segments, labels, contextTerms } = segmentText(TEXT, "word", {
+      nounOnly: false,
+    });
+    const label = (term: string) => labels[segments.indexOf(term)];
+    expect(label("semantic_analysis")).toBe("semantic analysis");
+    expect(label("analysis")).toBe("analyses");
+    expect(label("mouse")).toBe("mice");
+    expect(segments).not.toContain("the");
+    // Sentences come back as sequences of the same terms
+    expect(contextTerms).toEqual([
+      ["semantic_analysis", "group", "analysis"],
+      ["semantic_analysis", "need", "text"],
+      ["analysis", "text", "quick"],
+      ["cat", "chase", "mouse"],
+    ]);
+  });
+
+  it("filters by noun, custom stopword and frequency", () => {
+    const nouns = segmentText(TEXT, "word", { nounOnly: true }).segments;
+    expect(nouns).toEqual(
+      expect.arrayContaining([
+        "semantic_analysis",
+        "analysis",
+        "text",
+        "cat",
+        "mouse",
+      ]),
+    );
+    expect(nouns).not.toContain("chase");
+    expect(nouns).not.toContain("quick");
+
+    expect(
+      segmentText(TEXT, "word", {
+        nounOnly: false,
+        customStopwords: ["Semantic analysis"],
+      }).segments,
+    ).not.toContain("semantic_analysis");
+    expect(
+      segmentText(TEXT, "word", {
+        nounOnly: false,
+        minWordFreq: 2,
+      }).segments.sort(),
+    ).toEqual(["analysis", "semantic_analysis", "text"]);
+  });
+
+  it("clusters wink stems with the enhanced pipeline off", () => {
+    const { segments, labels, contextTerms } = segmentText(TEXT, "word", {
+      enableEnhancedPipeline: false,
+    });
+    expect(segments).toContain("semant");
+    expect(labels[segments.indexOf("semant")]).toBe("semantic");
+    expect(contextTerms).toBeUndefined();
+  });
+});
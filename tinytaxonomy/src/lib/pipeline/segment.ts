@@ -0,0 +1,299 @@
+import { nlp, its } from "./wink";
+import { parseDelimited, guessTextColumn } from "../utils/csv";
+import {
+  isStopword,
+  ngramSpans,
+  processDocumentsEnhanced,
+  type EnhancedToken,
+} from "../utils/nlpEnhanced";
+import { toEnhancedPipelineOptions } from "./similarity";
+import type { Mode, WorkerOptions } from "../types";
+
+export interface SegmentationResult {
+  // Units to cluster: raw text for paragraph/sentence mode, stems or
+  // lemmas/n-grams for word mode
+  segments: string[];
+  // Sentences used as co-occurrence contexts (word mode only)
+  contextSegments: string[];
+  // The content terms of each context, in the vocabulary of `segments`; set
+  // when word mode ran the enhanced pipeline (stems are read off the
+  // sentences otherwise)
+  contextTerms?: string[][];
+  // Human-friendly labels in the same order as `segments`
+  labels: string[];
+  // Remaining columns of each row, in the same order as `segments` (row mode only)
+  metadata?: Record<string, string>[];
+}
+
+/**
+ * Split the input into the atomic units for the chosen mode.
+ *
+ * In word mode this also applies the custom stopword, noun-only and
+ * min-frequency filters and picks the most common surface form of each
+ * word as its display label. Words are lemmas and detected n-grams when the
+ * enhanced pipeline is on (`onProgress` then follows its tokenising), stems
+ * otherwise.
+ */
+export function segmentText(
+  text: string,
+  mode: Mode,
+  options: WorkerOptions = {},
+  onProgress?: (fraction: number) => void,
+): SegmentationResult {
+  if (mode === "row") {
+    return segmentRows(text, options);
+  }
+
+  const doc = nlp.readDoc(text);
+
+  if (mode === "paragraph") {
+    const segments = text.split(/\n\n+/).filter((s) => s.trim().length > 0);
+    return { segments, contextSegments: [], labels: segments };
+  }
+
+  if (mode === "sentence") {
+    const segments = sentencesOf(doc);
+    return { segments, contextSegments: [], labels: segments };
+  }
+
+  return options.enableEnhancedPipeline !== false
+    ? segmentWordTerms(doc, options, onProgress)
+    : segmentWordStems(doc, options);
+}
+
+/**
+ * The document's sentences, without the empty ones wink reports for trailing
+ * newlines and blank lines.
+ */
+function sentencesOf(doc: any): string[] {
+  return (doc.sentences().out() as string[]).filter((s) => s.trim().length > 0);
+}
+
+function segmentWordStems(
+  doc: any,
+  options: WorkerOptions,
+): SegmentationResult {
+  // Build both stems (used for matching/clustering) and human-friendly labels
+  // (choose the most common original token for each stem). This keeps
+  // clustering accurate while ensuring the UI shows original words.
+  // collect tokens but apply base filters (non-stop words, words only)
+  const tokenCollection = doc
+    .tokens()
+    .filter((t: any) => t.out(its.type) === "word" && !t.out(its.stopWordFlag));
+
+  // arrays in same order for mapping
+  let stemsAll: string[] = tokenCollection.out(its.stem);
+  let normalsAll: string[] = tokenCollection.out(its.normal);
+  let posAll: string[] = tokenCollection.out(its.pos);
+
+  // tabulate the most common normal form per stem
+  const stemToCounts = new Map<string, Map<string, number>>();
+  for (let i = 0; i < stemsAll.length; i++) {
+    const s = stemsAll[i];
+    const n = normalsAll[i];
+    const inner = stemToCounts.get(s) ?? new Map<string, number>();
+    inner.set(n, (inner.get(n) ?? 0) + 1);
+    stemToCounts.set(s, inner);
+  }
+
+  // Apply custom stopwords if provided
+  if (options.customStopwords && options.customStopwords.length > 0) {
+    const customStopSet = new Set(
+      options.customStopwords.map((w) => w.toLowerCase().trim()),
+    );
+    const filteredStems: string[] = [];
+    const filteredNormals: string[] = [];
+    const filteredPos: string[] = [];
+
+    for (let i = 0; i < stemsAll.length; i++) {
+      if (!customStopSet.has(normalsAll[i].toLowerCase())) {
+        filteredStems.push(stemsAll[i]);
+        filteredNormals.push(normalsAll[i]);
+        filteredPos.push(posAll[i]);
+      }
+    }
+    stemsAll = filteredStems;
+    normalsAll = filteredNormals;
+    posAll = filteredPos;
+  }
+
+  // optionally filter by POS (keep nouns only) or by global frequency
+  if (options.nounOnly) {
+    const nounFiltered: string[] = [];
+    const normalsFiltered: string[] = [];
+    for (let i = 0; i < stemsAll.length; i++) {
+      const pos = posAll[i] ?? "";
+      // keep token if POS appears to be noun-like (POS string starting with N)
+      if (/^N/i.test(pos)) {
+        nounFiltered.push(stemsAll[i]);
+        normalsFiltered.push(normalsAll[i]);
+      }
+    }
+    stemsAll = nounFiltered;
+    normalsAll = normalsFiltered;
+  }
+
+  // count stems and optionally enforce minWordFreq
+  const stemCounts = new Map<string, number>();
+  for (const s of stemsAll) stemCounts.set(s, (stemCounts.get(s) ?? 0) + 1);
+
+  const minFreq =
+    typeof options.minWordFreq === "number"
+      ? Math.max(1, options.minWordFreq)
+      : 1;
+  const uniqueStems = [...new Set(stemsAll)].filter(
+    (s) => (stemCounts.get(s) ?? 0) >= minFreq,
+  );
+
+  // For display choose the most frequent normal for each stem
+  const labels = uniqueStems.map((s) => {
+    const counts = stemToCounts.get(s)!;
+    let best = "";
+    let bestCount = -1;
+    for (const [normal, c] of counts) {
+      if (c > bestCount) {
+        best = normal;
+        bestCount = c;
+      }
+    }
+    return best;
+  });
+
+  // segments hold the stems (for matching); the sentences are passed along as
+  // contexts so we can compute co-occurrence vectors
+  return { segments: uniqueStems, contextSegments: sentencesOf(doc), labels };
+}
+
+/**
+ * Word mode over the enhanced pipeline: each sentence is lemmatised and
+ * frequent n-grams are merged into single terms (`semantic_analysis`). Terms
+ * are trimmed of leading and trailing stopwords; an n-gram counts as a noun
+ * when its last word is one.
+ */
+function segmentWordTerms(
+  doc: any,
+  options: WorkerOptions,
+  onProgress?: (fraction: number) => void,
+): SegmentationResult {
+  const sentences = sentencesOf(doc);
+  const pipelineOptions = {
+    ...toEnhancedPipelineOptions(options),
+    lemmasInContext: true,
+  };
+  const { processedDocs, ngrams } = processDocumentsEnhanced(
+    sentences,
+    pipelineOptions,
+    onProgress,
+  );
+
+  // wink's stopword list is longer than the enhanced pipeline's; use both
+  const winkStopwords = new Set<string>(
+    doc
+      .tokens()
+      .filter((t: any) => t.out(its.stopWordFlag))
+      .out(its.normal),
+  );
+  const isStop = (token: EnhancedToken) =>
+    isStopword(token.lemma) || winkStopwords.has(token.text.toLowerCase());
+  const customStopSet = new Set(
+    (options.customStopwords ?? []).map((w) => w.toLowerCase().trim()),
+  );
+
+  // Surface forms seen per term, and how many occurrences pass the filters
+  const surfaceCounts = new Map<string, Map<string, number>>();
+  const termCounts = new Map<string, number>();
+  const contextTerms = processedDocs.map(({ tokens }) => {
+    const keys = tokens.map((t) =>
+      pipelineOptions.enableLemmatization ? t.lemma : t.text.toLowerCase(),
+    );
+    const terms: string[] = [];
+    for (let { start, end } of ngramSpans(keys, ngrams)) {
+      while (start < end && isStop(tokens[start])) start++;
+      while (end > start && isStop(tokens[end - 1])) end--;
+      if (start === end) continue;
+
+      const term = keys.slice(start, end).join("_");
+      const surface = tokens
+        .slice(start, end)
+        .map((t) => t.text.toLowerCase())
+        .join(" ");
+      terms.push(term);
+
+      const inner = surfaceCounts.get(term) ?? new Map<string, number>();
+      inner.set(surface, (inner.get(surface) ?? 0) + 1);
+      surfaceCounts.set(term, inner);
+
+      if (
+        customStopSet.has(surface) ||
+        customStopSet.has(term.replace(/_/g, " "))
+      )
+        continue;
+      if (options.nounOnly && tokens[end - 1].pos !== "NOUN") continue;
+      termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+    }
+    return terms;
+  });
+
+  const minFreq =
+    typeof options.minWordFreq === "number"
+      ? Math.max(1, options.minWordFreq)
+      : 1;
+  const terms = [...termCounts.keys()].filter(
+    (term) => termCounts.get(term)! >= minFreq,
+  );
+
+  // For display choose the most frequent surface form of each term
+  const labels = terms.map((term) => {
+    let best = "";
+    let bestCount = -1;
+    for (const [surface, c] of surfaceCounts.get(term)!) {
+      if (c > bestCount) {
+        best = surface;
+        bestCount = c;
+      }
+    }
+    return best;
+  });
+
+  return { segments: terms, contextSegments: sentences, contextTerms, labels };
+}
+
+/**
+ * Row mode: each row of a CSV/TSV is one segment. The chosen text column is
+ * clustered and every other column is carried along as leaf metadata.
+ */
+export function segmentRows(
+  text: string,
+  options: WorkerOptions = {},
+): SegmentationResult {
+  const table = parseDelimited(text, options.delimiter);
+  if (table.headers.length === 0) {
+    throw new Error(
+      "No header row found — row mode expects CSV/TSV with column names on the first line.",
+    );
+  }
+
+  const textColumn = options.textColumn ?? guessTextColumn(table);
+  const textIndex =
+    textColumn !== undefined ? table.headers.indexOf(textColumn) : -1;
+  if (textIndex < 0) {
+    throw new Error(
+      `Column "${textColumn}" not found (available: ${table.headers.join(", ")})`,
+    );
+  }
+
+  const segments: string[] = [];
+  const metadata: Record<string, string>[] = [];
+  for (const row of table.rows) {
+    const value = (row[textIndex] ?? "").trim();
+    if (!value) continue;
+    const meta: Record<string, string> = {};
+    table.headers.forEach((header, col) => {
+      if (col !== textIndex) meta[header] = (row[col] ?? "").trim();
+    });
+    segments.push(value);
+    metadata.push(meta);
+  }
+
+  return { segments, contextSegments: [], labels: segments, metadata };
+}
@@ -0,0 +1,413 @@
+import { nlp, its } from "./wink";
+import {
+  buildTfIdfVectors,
+  distanceMatrix,
+  documentFrequencies,
+  ppmiVectors,
+  type DistanceMatrix,
+  type SparseVector,
+} from "../utils/math";
+import {
+  filterVocabularyByDF,
+  processDocumentsEnhanced,
+  type EnhancedPipelineOptions,
+} from "../utils/nlpEnhanced";
+import type {
+  DistanceMetric,
+  Mode,
+  TermWeighting,
+  WorkerOptions,
+} from "../types";
+import type { SegmentationResult } from "./segment";
+import type { StageReporter } from "./progress";
+import { projectLsa, type LsaSummary } from "./lsa";
+import { applyEmbeddings, type EmbeddingCoverage } from "./embeddings";
+import type { WordEmbeddings } from "../utils/embeddings";
+
+export interface VectorResult {
+  vectors: SparseVector[];
+  labels: string[];
+  tokenWeightsForLabeling?: Map<string, number>;
+  // Word behind each dimension (segment modes), to look up word vectors
+  terms?: string[];
+  // Set when the vectors were projected onto latent dimensions
+  lsa?: LsaSummary;
+  // Set when word vectors were averaged in or blended
+  embeddings?: EmbeddingCoverage;
+}
+
+export interface SimilarityResult {
+  matrix: DistanceMatrix;
+  labels: string[];
+  tokenWeightsForLabeling?: Map<string, number>;
+}
+
+/**
+ * Map the user-facing worker options onto the enhanced NLP pipeline options,
+ * filling in the documented defaults.
+ */
+export function toEnhancedPipelineOptions(
+  options: WorkerOptions = {},
+): EnhancedPipelineOptions {
+  return {
+    enableLemmatization: options.enableLemmatization !== false,
+    enableNgrams: options.enableNgrams !== false,
+    minNgramFreq: options.minNgramFreq ?? 2,
+    nounPhraseBoost: options.nounPhraseBoost ?? 1.3,
+    glueWordPenalty: options.glueWordPenalty ?? 0.5,
+    weighting: options.weighting ?? "tfidf",
+    normalizeVectors: options.normalizeVectors !== false,
+  };
+}
+
+/**
+ * Vectorise a segmentation result: word mode describes words by their
+ * contexts (sentences or nearby words), paragraph/sentence mode builds
+ * segment TF-IDF vectors (optionally through the enhanced pipeline). Either
+ * can then be replaced or blended by word `embeddings` (required when
+ * `options.embeddings` names a set) and projected onto latent dimensions
+ * with a truncated SVD.
+ */
+export function calculateVectors(
+  segmentation: SegmentationResult,
+  mode: Mode,
+  options: WorkerOptions = {},
+  report?: StageReporter,
+  embeddings?: WordEmbeddings,
+): VectorResult {
+  const { segments, contextSegments, contextTerms, labels } = segmentation;
+
+  let result: VectorResult;
+  if (mode === "word") {
+    result = calculateWordVectors(
+      segments,
+      contextTerms ?? contextSegments,
+      labels,
+      report,
+      options,
+    );
+  } else if (options.enableEnhancedPipeline !== false) {
+    result = calculateEnhancedSegmentVectors(
+      segments,
+      toEnhancedPipelineOptions(options),
+      report,
+    );
+  } else {
+    result = calculateSegmentVectors(segments, report, options.weighting);
+  }
+  if (options.embeddings) {
+    if (embeddings?.name !== options.embeddings) {
+      throw new Error(`Word vectors "${options.embeddings}" are not loaded`);
+    }
+    const applied = applyEmbeddings(result, mode, embeddings, options, report);
+    result = { ...applied.result, embeddings: applied.coverage };
+  }
+  if (!options.enableLsa) return result;
+
+  const { vectors, summary } = projectLsa(
+    result.vectors,
+    options.lsaDimensions,
+    report,
+  );
+  return { ...result, vectors, lsa: summary };
+}
+
+/**
+ * Distance matrix over the vectors under `metric`, reporting the `distances`
+ * stage.
+ */
+export function calculateDistanceMatrix(
+  vectors: SparseVector[],
+  report?: StageReporter,
+  unit = "segments",
+  metric: DistanceMetric = "cosine",
+): DistanceMatrix {
+  report?.(
+    "distances",
+    0,
+    `Calculating ${metric} distances between ${vectors.length} ${unit}...`,
+  );
+  return distanceMatrix(vectors, metric, (f) => report?.("distances", f));
+}
+
+/**
+ * Build the distance matrix for a segmentation result (see `calculateVectors`).
+ */
+export function calculateSimilarityMatrix(
+  segmentation: SegmentationResult,
+  mode: Mode,
+  options: WorkerOptions = {},
+  report?: StageReporter,
+): SimilarityResult {
+  const { vectors, ...rest } = calculateVectors(
+    segmentation,
+    mode,
+    options,
+    report,
+  );
+  return {
+    ...rest,
+    matrix: calculateDistanceMatrix(
+      vectors,
+      report,
+      mode === "word" ? "words" : "segments",
+      options.metric,
+    ),
+  };
+}
+
+export function calculateSegmentVectors(
+  segments: string[],
+  report?: StageReporter,
+  weighting?: TermWeighting,
+): VectorResult {
+  report?.("vectorising", 0, "Building TF-IDF vectors...");
+  // Most common surface form per stem, for word-vector lookup
+  const normalCounts = new Map<string, Map<string, number>>();
+  const tokenizedSegments = segments.map((seg) => {
+    const doc = nlp.readDoc(seg);
+    const tokens = doc
+      .tokens()
+      .filter(
+        (t: any) => t.out(its.type) === "word" && !t.out(its.stopWordFlag),
+      );
+    const stems: string[] = tokens.out(its.stem);
+    const normals: string[] = tokens.out(its.normal);
+    stems.forEach((stem, i) => {
+      const inner = normalCounts.get(stem) ?? new Map<string, number>();
+      inner.set(normals[i], (inner.get(normals[i]) ?? 0) + 1);
+      normalCounts.set(stem, inner);
+    });
+    return stems;
+  });
+
+  const vocabulary = [...new Set(tokenizedSegments.flat())] as string[];
+
+  const vectors = buildTfIdfVectors(tokenizedSegments, vocabulary, {
+    weighting,
+  });
+  const terms = vocabulary.map((stem) => {
+    let best = stem;
+    let bestCount = 0;
+    for (const [normal, c] of normalCounts.get(stem)!) {
+      if (c > bestCount) {
+        best = normal;
+        bestCount = c;
+      }
+    }
+    return best;
+  });
+
+  return { vectors, labels: segments, terms };
+}
+
+export function calculateSegmentSimilarityMatrix(
+  segments: string[],
+  report?: StageReporter,
+): SimilarityResult {
+  const { vectors, labels } = calculateSegmentVectors(segments, report);
+  return { matrix: calculateDistanceMatrix(vectors, report), labels };
+}
+
+/**
+ * Enhanced segment vectors using lemmatization, n-grams, and weighted TF-IDF
+ */
+export function calculateEnhancedSegmentVectors(
+  segments: string[],
+  options: EnhancedPipelineOptions,
+  report?: StageReporter,
+): {
+  vectors: SparseVector[];
+  labels: string[];
+  tokenWeightsForLabeling: Map<string, number>;
+  terms: string[];
+} {
+  // Process documents through enhanced pipeline
+  report?.(
+    "tokenising",
+    0,
+    "Running enhanced NLP pipeline (lemmatization, n-grams)...",
+  );
+  const { processedDocs, globalVocabulary, tokenWeights } =
+    processDocumentsEnhanced(segments, options, (f) =>
+      report?.("tokenising", f),
+    );
+  report?.("vectorising", 0, "Building weighted TF-IDF vectors...");
+
+  // Build tokenized segments from processed vocabulary
+  const tokenizedSegments = processedDocs.map((doc) => doc.vocabulary);
+
+  // Filter vocabulary by document frequency (remove too rare or too common terms)
+  // Keep terms appearing in at least 1 doc and at most 95% of docs
+  const df = documentFrequencies(tokenizedSegments);
+  const filteredVocabulary = filterVocabularyByDF(
+    globalVocabulary,
+    tokenizedSegments,
+    1,
+    0.95,
+    df,
+  );
+
+  // Calculate TF-IDF vectors with enhanced weighting
+  const vectors = buildTfIdfVectors(
+    tokenizedSegments,
+    filteredVocabulary,
+    {
+      tokenWeights,
+      weighting: options.weighting,
+      normalizeVector: options.normalizeVectors !== false,
+    },
+    df,
+  );
+
+  return {
+    vectors,
+    labels: segments,
+    tokenWeightsForLabeling: tokenWeights,
+    terms: filteredVocabulary,
+  };
+}
+
+/**
+ * Enhanced segment similarity matrix using lemmatization, n-grams, and weighted TF-IDF
+ */
+export function calculateEnhancedSegmentSimilarityMatrix(
+  segments: string[],
+  options: EnhancedPipelineOptions,
+  report?: StageReporter,
+): {
+  matrix: DistanceMatrix;
+  labels: string[];
+  tokenWeightsForLabeling: Map<string, number>;
+} {
+  const { vectors, ...rest } = calculateEnhancedSegmentVectors(
+    segments,
+    options,
+    report,
+  );
+  return { ...rest, matrix: calculateDistanceMatrix(vectors, report) };
+}
+
+export const DEFAULT_CONTEXT_WINDOW = 4;
+
+export function calculateWordVectors(
+  words: string[],
+  contexts: string[] | string[][],
+  labelsForDisplay?: string[],
+  report?: StageReporter,
+  options: WorkerOptions = {},
+): VectorResult {
+  // `words` contains stems (or lemmas/n-grams) that should be used for matching.
+  // `labelsForDisplay` is an optional array of user-friendly labels (same order
+  // as `words`) to use in the UI. If not provided, fall back to showing the
+  // stem itself. `contexts` are sentences, stemmed here, or term sequences
+  // already in the vocabulary of `words`.
+  const windowed = options.wordContext === "window";
+  const window = Math.max(1, options.contextWindow ?? DEFAULT_CONTEXT_WINDOW);
+  report?.(
+    "vectorising",
+    0,
+    windowed
+      ? `Building word co-occurrence vectors (±${window}-word windows)...`
+      : "Building word co-occurrence vectors...",
+  );
+  // Windows skip stopwords so they span content words
+  const tokenizedContexts: string[][] = (contexts as (string | string[])[]).map(
+    (ctx) => {
+      if (typeof ctx !== "string") return ctx;
+      const doc = nlp.readDoc(ctx);
+      return doc
+        .tokens()
+        .filter(
+          (t: any) =>
+            t.out(its.type) === "word" &&
+            !(windowed && t.out(its.stopWordFlag)),
+        )
+        .out(its.stem);
+    },
+  );
+
+  const wordIndex = new Map<string, number>();
+  words.forEach((word, i) => wordIndex.set(word, i));
+  const counts = windowed
+    ? windowCounts(tokenizedContexts, wordIndex, words.length, window)
+    : sentenceIncidence(tokenizedContexts, wordIndex, words.length);
+
+  return {
+    vectors: options.enablePpmi ? ppmiVectors(counts) : counts,
+    labels: labelsForDisplay ?? words,
+  };
+}
+
+// Binary word × sentence vectors, built from one pass over the contexts
+function sentenceIncidence(
+  tokenizedContexts: string[][],
+  wordIndex: Map<string, number>,
+  count: number,
+): SparseVector[] {
+  const contextsOf: number[][] = Array.from({ length: count }, () => []);
+  tokenizedContexts.forEach((ctxTokens, c) => {
+    for (const token of new Set(ctxTokens)) {
+      const i = wordIndex.get(token);
+      if (i !== undefined) contextsOf[i].push(c);
+    }
+  });
+  return contextsOf.map((contexts) => ({
+    indices: Uint32Array.from(contexts),
+    values: new Float64Array(contexts.length).fill(1),
+  }));
+}
+
+// Word × context-word counts: how often each stem occurs within `window`
+// tokens of the word, inside the same sentence
+function windowCounts(
+  tokenizedContexts: string[][],
+  wordIndex: Map<string, number>,
+  count: number,
+  window: number,
+): SparseVector[] {
+  const contextIndex = new Map<string, number>();
+  const rows = Array.from({ length: count }, () => new Map<number, number>());
+  for (const tokens of tokenizedContexts) {
+    const ids = tokens.map((token) => {
+      if (!contextIndex.has(token)) contextIndex.set(token, contextIndex.size);
+      return contextIndex.get(token)!;
+    });
+    tokens.forEach((token, p) => {
+      const i = wordIndex.get(token);
+      if (i === undefined) return;
+      const row = rows[i];
+      for (
+        let q = Math.max(0, p - window);
+        q <= Math.min(tokens.length - 1, p + window);
+        q++
+      ) {
+        if (q !== p) row.set(ids[q], (row.get(ids[q]) ?? 0) + 1);
+      }
+    });
+  }
+  return rows.map((row) => {
+    const indices = Uint32Array.from(row.keys()).sort();
+    return { indices, values: Float64Array.from(indices, (c) => row.get(c)!) };
+  });
+}
+
+export function calculateWordSimilarityMatrix(
+  words: string[],
+  contexts: string[] | string[][],
+  labelsForDisplay?: string[],
+  report?: StageReporter,
+  options: WorkerOptions = {},
+): SimilarityResult {
+  const { vectors, labels } = calculateWordVectors(
+    words,
+    contexts,
+    labelsForDisplay,
+    report,
+    options,
+  );
+  return {
+    matrix: calculateDistanceMatrix(vectors, report, "words", options.metric),
+    labels,
+  };
+}
@@ -0,0 +1,342 @@
+import { nlp, its } from "./wink";
+import { textRank } from "../utils/nlp";
+import { computeDendrogramCutoff, findHeightGaps } from "../utils/nlpEnhanced";
+import type { TaxonomyNode } from "../types";
+
+/**
+ * Recursively collect all merge heights from a cluster result
+ */
+export function collectHeights(node: any, heights: number[]): void {
+  if (node.height !== undefined && node.height !== null) {
+    heights.push(node.height);
+  }
+  if (node.children && node.children.length > 0) {
+    for (const child of node.children) {
+      collectHeights(child, heights);
+    }
+  }
+}
+
+/**
+ * Pick the dendrogram cutoff: the smaller of the percentile cutoff and the
+ * first significant gap in the merge height distribution.
+ */
+export function computeEffectiveCutoff(
+  heights: number[],
+  percentile = 0.85,
+): number {
+  const { cutoff } = computeDendrogramCutoff(heights, percentile);
+
+  // Also look for natural gaps in the height distribution
+  const gaps = findHeightGaps(heights, 1.5);
+
+  return gaps.length > 0 ? Math.min(cutoff, Math.min(...gaps)) : cutoff;
+}
+
+// Node ids follow the dendrogram rather than the cut. Within one hierarchy a
+// subtree is identified by its smallest leaf index and its number of leaves
+// (subtrees sharing a smallest leaf are nested, so they differ in size);
+// every cut of an analysis therefore gives a subtree the same id, and hand
+// edits can be carried from one cut to the next.
+const leafSpans = new WeakMap<object, { first: number; count: number }>();
+
+function leafSpan(node: any): { first: number; count: number } {
+  let span = leafSpans.get(node);
+  if (!span) {
+    if (node.children && node.children.length > 0) {
+      span = { first: Infinity, count: 0 };
+      for (const child of node.children) {
+        const childSpan = leafSpan(child);
+        span.first = Math.min(span.first, childSpan.first);
+        span.count += childSpan.count;
+      }
+    } else {
+      span = { first: node.index ?? 0, count: 1 };
+    }
+    leafSpans.set(node, span);
+  }
+  return span;
+}
+
+// Cantor pairing of (first, count): distinct and at least 1
+function nodeId(node: any): number {
+  const { first, count } = leafSpan(node);
+  return ((first + count) * (first + count + 1)) / 2 + count;
+}
+
+interface LeafTokens {
+  normals: string[];
+  poses: string[];
+}
+
+// Keyword extraction looks at an evenly spaced sample of at most this many
+// leaves, so labelling stays linear in the number of clusters on large inputs
+const MAX_LABEL_LEAVES = 300;
+
+// Every ancestor cluster re-reads the same leaves, so tokenise each leaf once
+// per labels array instead of once per enclosing cluster.
+const leafTokenCache = new WeakMap<string[], Map<number, LeafTokens>>();
+
+function leafTokens(labels: string[], index: number): LeafTokens {
+  let cache = leafTokenCache.get(labels);
+  if (!cache) {
+    cache = new Map();
+    leafTokenCache.set(labels, cache);
+  }
+  let tokens = cache.get(index);
+  if (!tokens) {
+    try {
+      const doc = nlp.readDoc(labels[index]);
+      const toks = doc
+        .tokens()
+        .filter(
+          (t: any) => t.out(its.type) === "word" && !t.out(its.stopWordFlag),
+        );
+      tokens = { normals: toks.out(its.normal), poses: toks.out(its.pos) };
+    } catch (err) {
+      // ignore tokenization errors for any given leaf
+      tokens = { normals: [], poses: [] };
+    }
+    cache.set(index, tokens);
+  }
+  return tokens;
+}
+
+export function convertToD3(
+  node: any,
+  labels: string[],
+  metadata?: Record<string, string>[],
+): TaxonomyNode {
+  // Helper to build a sample list of leaf labels under a node (bounded size)
+  function collectSampleLeaves(n: any, out: string[], limit = 5) {
+    if (out.length >= limit) return;
+    if (n.children && n.children.length > 0) {
+      for (const c of n.children) {
+        collectSampleLeaves(c, out, limit);
+        if (out.length >= limit) break;
+      }
+    } else if (
+      n.index !== undefined &&
+      n.index >= 0 &&
+      n.index < labels.length
+    ) {
+      out.push(labels[n.index]);
+    }
+  }
+
+  if (node.children && node.children.length > 0) {
+    const childrenConverted = node.children.map((child: any) =>
+      convertToD3(child, labels, metadata),
+    );
+
+    // Prefer an explicit numeric height if present; fall back to other common names.
+    const rawHeight = node.height ?? node.distance ?? node.dist ?? null;
+    const heightValue = typeof rawHeight === "number" ? rawHeight : undefined;
+
+    // Sample up to 5 leaf labels contained in this cluster so the UI can preview members
+    const sampleLeaves: string[] = [];
+    collectSampleLeaves(node, sampleLeaves, 5);
+
+    // Collect all leaf indices (no sample limit) to compute representative keywords
+    const allLeaves: number[] = [];
+    (function collectAll(n2: any) {
+      if (n2.children && n2.children.length)
+        return n2.children.forEach((c: any) => collectAll(c));
+      if (n2.index !== undefined && n2.index >= 0 && n2.index < labels.length)
+        allLeaves.push(n2.index);
+    })(node);
+
+    // compute representative keywords for this cluster using a lightweight TextRank
+    // implementation. We prefer noun/adjective candidates; if none exist we fall
+    // back to other tokens and add a small hint in the UI for non-noun tokens.
+    const tokenBuckets: string[][] = [];
+    const tokenPosByLeaf: string[][] = [];
+    const stride = Math.max(1, allLeaves.length / MAX_LABEL_LEAVES);
+    for (let offset = 0; offset < allLeaves.length; offset += stride) {
+      const { normals, poses } = leafTokens(
+        labels,
+        allLeaves[Math.floor(offset)],
+      );
+      // collect per-node sequence and pos-array so we can build co-occurrence
+      // graphs and prefer nouns/adjectives when building the label
+      tokenBuckets.push(normals.filter((n: string) => n && n.length > 1));
+      tokenPosByLeaf.push(poses);
+    }
+
+    // Prefer noun/adjective candidates first for user-facing labels
+    let candidates = textRank(tokenBuckets, tokenPosByLeaf, 3, 0.85, 18).map(
+      (s) => s.token,
+    );
+
+    // Filter to nouns/adjectives when possible
+    const nounCandidates: string[] = [];
+    if (candidates.length) {
+      for (const c of candidates) {
+        // scan each leaf's tokens to find a matching pos for the candidate
+        let foundPos: string | undefined = undefined;
+        for (let li = 0; li < tokenBuckets.length; li++) {
+          const idx = (tokenBuckets[li] || []).indexOf(c);
+          if (idx >= 0) {
+            const pos = (tokenPosByLeaf[li] || [])[idx] ?? "";
+            foundPos = pos;
+            break;
+          }
+        }
+        if (foundPos && /^N|^A/i.test(foundPos)) nounCandidates.push(c);
+      }
+    }
+
+    const finalCandidates = nounCandidates.length ? nounCandidates : candidates;
+
+    const keywords = finalCandidates.slice(0, 3);
+
+    // If we didn't find noun-like candidates, add a small hint per token about POS
+    const clusterLabel = keywords.length
+      ? keywords
+          .map((k) => {
+            // find one occurrence and its pos
+            let foundPos = "";
+            for (let li = 0; li < tokenBuckets.length; li++) {
+              const idx = (tokenBuckets[li] || []).indexOf(k);
+              if (idx >= 0) {
+                foundPos = (tokenPosByLeaf[li] || [])[idx] ?? "";
+                break;
+              }
+            }
+            if (foundPos && !/^N/i.test(foundPos)) {
+              // verbs -> show "to protect" style hint, adjectives -> mark (adj)
+              if (/^V/i.test(foundPos)) return `${k} (to ${k})`;
+              if (/^A/i.test(foundPos)) return `${k} (adj)`;
+              return `${k} (${foundPos})`;
+            }
+            return k;
+          })
+          .join(" / ")
+      : null;
+
+    return {
+      id: nodeId(node),
+      name: `Cluster (H:${heightValue !== undefined ? heightValue.toFixed(2) : "N/A"})`,
+      // passed through for UI usage
+      height: heightValue,
+      // small array of sample leaf labels
+      sampleLeaves,
+      // computed representative keywords (may be null)
+      clusterKeywords: keywords,
+      clusterLabel: clusterLabel,
+      children: childrenConverted,
+      type: "cluster",
+    };
+  }
+
+  if (node.index !== undefined) {
+    if (node.index < 0 || node.index >= labels.length) {
+      return {
+        name: `[Error: Index ${node.index}]`,
+        fullText: `Invalid index from clustering. Data may be too sparse or uniform.`,
+        value: 1,
+        type: "leaf",
+      };
+    }
+
+    const rawText = labels[node.index];
+    const fullText =
+      rawText !== undefined && rawText !== null
+        ? rawText
+        : `[Missing Label for Index ${node.index}]`;
+
+    const name =
+      fullText.length > 40 ? fullText.substring(0, 37) + "..." : fullText;
+    // Leaves are given a small sampleLeaves array so UI handling is uniform
+    return {
+      id: nodeId(node),
+      name: name,
+      fullText: fullText,
+      // position of the segment/word in the input, for flat exports
+      index: node.index,
+      value: 1,
+      sampleLeaves: [fullText],
+      ...(metadata?.[node.index] ? { metadata: metadata[node.index] } : {}),
+      type: "leaf",
+    };
+  }
+
+  return {
+    name: "[Malformed Node]",
+    fullText: "Node structure missing index and children.",
+    value: 1,
+    type: "leaf",
+  };
+}
+
+/**
+ * Convert clustering result to D3 tree with dendrogram cutoff.
+ * Nodes above the cutoff height become top-level clusters (multiple roots).
+ * This produces a cleaner, more interpretable taxonomy.
+ */
+export function convertToD3WithCutoff(
+  node: any,
+  labels: string[],
+  cutoffHeight: number,
+  metadata?: Record<string, string>[],
+): TaxonomyNode {
+  // Helper to collect all subtrees at or below the cutoff
+  function collectSubtreesAtCutoff(n: any, subtrees: any[]): void {
+    const nodeHeight = n.height ?? n.distance ?? n.dist ?? 0;
+
+    // If this node is at or below cutoff, it becomes a subtree root
+    if (nodeHeight <= cutoffHeight) {
+      subtrees.push(n);
+      return;
+    }
+
+    // Otherwise, recurse into children
+    if (n.children && n.children.length > 0) {
+      for (const child of n.children) {
+        collectSubtreesAtCutoff(child, subtrees);
+      }
+    } else {
+      // Leaf node above cutoff (shouldn't happen normally)
+      subtrees.push(n);
+    }
+  }
+
+  const subtrees: any[] = [];
+  collectSubtreesAtCutoff(node, subtrees);
+  return convertTopLevelToD3(node, subtrees, labels, cutoffHeight, metadata);
+}
+
+/**
+ * Convert a dendrogram cut into `subtrees` (e.g. by `splitToCount`): several
+ * subtrees hang from a synthetic root labelled with the cut height.
+ */
+export function convertTopLevelToD3(
+  node: any,
+  subtrees: any[],
+  labels: string[],
+  cutoffHeight: number,
+  metadata?: Record<string, string>[],
+): TaxonomyNode {
+  // If we have multiple subtrees, create a synthetic root
+  if (subtrees.length > 1) {
+    const convertedSubtrees = subtrees.map((st) =>
+      convertToD3(st, labels, metadata),
+    );
+
+    return {
+      id: nodeId(node),
+      name: `Root (${subtrees.length} top-level clusters)`,
+      height: cutoffHeight,
+      sampleLeaves: convertedSubtrees
+        .flatMap((st) => st.sampleLeaves ?? [])
+        .slice(0, 5),
+      clusterKeywords: [],
+      clusterLabel: `${subtrees.length} clusters at cutoff H=${cutoffHeight.toFixed(3)}`,
+      children: convertedSubtrees,
+      type: "cluster",
+    };
+  }
+
+  // Single subtree or original tree
+  return convertToD3(node, labels, metadata);
+}
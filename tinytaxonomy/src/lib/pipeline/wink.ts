@@ -0,0 +1,26 @@
+// Shared NLP runtime for the pipeline stages. wink-nlp and its model are CJS
+// packages, so normalise their module shape once here and reuse the instances
+// from both the worker and Node callers.
+
+import * as winkModule from "wink-nlp";
+import * as modelModule from "wink-eng-lite-web-model";
+
+// --- FIXES FOR CJS IMPORTS (Kept for wink-nlp/model) ---
+
+const cjsInterop = (module: any) => {
+  if (typeof module === "function") return module;
+  if (
+    module &&
+    typeof module === "object" &&
+    typeof module.default !== "undefined"
+  ) {
+    return module.default;
+  }
+  return module;
+};
+
+const winkFactory: any = cjsInterop(winkModule);
+const model: any = cjsInterop(modelModule);
+
+export const nlp: any = (winkFactory as Function)(model);
+export const its = nlp.its;
@@ -1,9 +1,11 @@
 import { writable } from 'svelte/store';
+import type { Mode, TaxonomySource } from '$lib/types';
 
 export type AppState = {
 	text: string;
-	mode: 'paragraph' | 'sentence' | 'word';
+	mode: Mode;
 	data: any | null; // D3 hierarchy data output from worker
+	source: TaxonomySource | null; // text, mode and options that produced `data`
 	isProcessing: boolean;
 	error: string | null;
 };
@@ -12,6 +14,7 @@ export const appState = writable<AppState>({
 	text: '',
 	mode: 'sentence', // Default mode
 	data: null,
+	source: null,
 	isProcessing: false,
 	error: null
 });
\ No newline at end of file
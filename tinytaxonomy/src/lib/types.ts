@@ -1,10 +1,51 @@
-export type Mode = 'paragraph' | 'sentence' | 'word';
+export type Mode = 'paragraph' | 'sentence' | 'word' | 'row';
+
+export const MODES: Mode[] = ['paragraph', 'sentence', 'word', 'row'];
+
+export type Linkage = 'single' | 'complete' | 'average' | 'weighted' | 'centroid' | 'median' | 'ward';
+
+export const LINKAGES: Linkage[] = ['single', 'complete', 'average', 'weighted', 'centroid', 'median', 'ward'];
+
+// Agglomerative = AGNES (bottom-up merges), divisive = DIANA (top-down splits)
+export type ClusterAlgorithm = 'agglomerative' | 'divisive';
+
+export const CLUSTER_ALGORITHMS: ClusterAlgorithm[] = ['agglomerative', 'divisive'];
+
+// When to micro-cluster before hierarchical clustering: 'auto' above a segment count threshold
+export type ApproximateMode = 'auto' | 'always' | 'never';
+
+export const APPROXIMATE_MODES: ApproximateMode[] = ['auto', 'always', 'never'];
+
+// How term counts become vector weights (segment modes)
+export type TermWeighting = 'tfidf' | 'raw' | 'sublinear' | 'bm25' | 'binary';
+
+export const TERM_WEIGHTINGS: TermWeighting[] = ['tfidf', 'raw', 'sublinear', 'bm25', 'binary'];
+
+// Distance between two vectors, the input to clustering
+export type DistanceMetric = 'cosine' | 'jaccard' | 'euclidean' | 'jensen-shannon';
+
+export const DISTANCE_METRICS: DistanceMetric[] = ['cosine', 'jaccard', 'euclidean', 'jensen-shannon'];
+
+// What counts as a word's context in word mode: its sentences or the words around it
+export type WordContext = 'sentence' | 'window';
+
+export const WORD_CONTEXTS: WordContext[] = ['sentence', 'window'];
+
+// How word embeddings enter the vectors: replace them by weighted averages, or blend with the lexical ones
+export type EmbeddingMode = 'average' | 'blend';
+
+export const EMBEDDING_MODES: EmbeddingMode[] = ['average', 'blend'];
 
 export interface WorkerOptions {
     nounOnly?: boolean;
     minWordFreq?: number;
     minTfIdf?: number;
     customStopwords?: string[];
+
+    // Word mode context vectors
+    wordContext?: WordContext;           // Sentences a word occurs in, or words near it (default: sentence)
+    contextWindow?: number;              // Words either side that count as context in window mode (default: 4)
+    enablePpmi?: boolean;                // Weight co-occurrences by positive PMI (default: off)
     
     // Enhanced NLP pipeline options
     enableEnhancedPipeline?: boolean;   // Use the new enhanced pipeline
@@ -16,12 +57,38 @@ export interface WorkerOptions {
     normalizeVectors?: boolean;          // L2 normalize TF-IDF vectors
     enableAutoCutoff?: boolean;          // Auto-cut dendrogram at natural boundaries
     cutoffPercentile?: number;           // Percentile for dendrogram cutoff (default: 0.85)
+
+    // Vectors and distances
+    weighting?: TermWeighting;           // Term weighting of segment vectors (default: tfidf)
+    metric?: DistanceMetric;             // Distance between vectors (default: cosine)
+    enableLsa?: boolean;                 // Project vectors onto latent dimensions first: LSA, or SVD smoothing in word mode (default: off)
+    lsaDimensions?: number;              // Number of LSA dimensions k (default: 100)
+
+    // Word embeddings (the vectors are loaded separately, see `utils/embeddings.ts`)
+    embeddings?: string;                 // Name of the word-vector set to use (default: none)
+    embeddingMode?: EmbeddingMode;       // Weighted average of word vectors, or blend with lexical similarity (default: average)
+    embeddingWeight?: number;            // Share of embedding similarity when blending, 0–1 (default: 0.5)
+
+    // Clustering
+    algorithm?: ClusterAlgorithm;        // Agglomerative or divisive (default: agglomerative)
+    linkage?: Linkage;                   // Merge criterion for agglomerative clustering (default: average)
+    enableMetrics?: boolean;             // Cophenetic correlation and silhouettes; needs the full distance matrix (default: on)
+
+    // Large inputs
+    approximate?: ApproximateMode;       // Micro-cluster large inputs first (default: auto)
+    approximateThreshold?: number;       // Segment count above which 'auto' approximates (default: 2000)
+    microClusters?: number;              // Number of micro-clusters (default: min(1000, 10·√n))
+
+    // Row mode (CSV/TSV input)
+    textColumn?: string;                 // Column holding the text to cluster (default: longest column)
+    delimiter?: ',' | '\t' | ';';        // Field delimiter (default: sniffed from the header)
 }
 
-export interface WorkerMessage {
+// The inputs that produced a taxonomy, kept so results can be saved and reopened
+export interface TaxonomySource {
     text: string;
     mode: Mode;
-    options?: WorkerOptions;
+    options: WorkerOptions;
 }
 
 export interface TaxonomyNode {
@@ -38,19 +105,29 @@ export interface TaxonomyNode {
     index?: number;
     type?: 'cluster' | 'leaf';
     label?: string;
+    metadata?: Record<string, string>; // Other columns of the source row (row mode)
+    silhouette?: number; // Leaves: silhouette within their top-level cluster (−1…1)
 }
 
-export interface WorkerResponse {
-    type: 'success' | 'error' | 'progress';
-    data?: TaxonomyNode;
-    error?: string;
-    message?: string;
+export type ProgressStage = 'tokenising' | 'vectorising' | 'distances' | 'clustering' | 'labelling';
+
+export const PROGRESS_STAGES: ProgressStage[] = ['tokenising', 'vectorising', 'distances', 'clustering', 'labelling'];
+
+export interface ProgressUpdate {
+    stage: ProgressStage;
+    stageFraction: number;               // 0–1 within the current stage
+    fraction: number;                    // 0–1 of the whole run
+    message: string;                     // Human-readable description of the current step
 }
 
+// Receives progress updates from the pipeline stages
+export type ProgressCallback = (update: ProgressUpdate) => void;
+
 export interface AppState {
     text: string;
     mode: Mode;
     data: TaxonomyNode | null;
+    source: TaxonomySource | null;
     isProcessing: boolean;
     error: string | null;
     progress?: string;
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectDelimiter,
+  formatDelimited,
+  guessTextColumn,
+  parseDelimited,
+} from "./csv";
+
+describe("parseDelimited", () => {
+  it("reads quoted fields with delimiters, quotes and newlines", () => {
+    const table = parseDelimited(
+      'id,answer\r\n1,"Cats, mostly"\r\n2,"She said ""woof""\nand left"\r\n',
+    );
+    expect(table.delimiter).toBe(",");
+    expect(table.headers).toEqual(["id", "answer"]);
+    expect(table.rows).toEqual([
+      ["1", "Cats, mostly"],
+      ["2", 'She said "woof"\nand left'],
+    ]);
+  });
+
+  it("drops a byte order mark and blank lines and names empty headers", () => {
+    const table = parseDelimited("\uFEFFid;\n\n1;dogs\n  \n2;fish");
+    expect(table.headers).toEqual(["id", "column_2"]);
+    expect(table.rows).toEqual([
+      ["1", "dogs"],
+      ["2", "fish"],
+    ]);
+  });
+
+  it("uses a given delimiter over the sniffed one", () => {
+    expect(parseDelimited("a,b;c\n1,2;3", ";").headers).toEqual(["a,b", "c"]);
+  });
+});
+
+describe("detectDelimiter", () => {
+  it("counts candidates on the header line outside quotes", () => {
+    expect(detectDelimiter("id\tanswer\n1\ta,b,c")).toBe("\t");
+    expect(detectDelimiter('id;"answer, text";score')).toBe(";");
+    expect(detectDelimiter('"a;b";"c;d",e,f')).toBe(",");
+    expect(detectDelimiter("single column")).toBe(",");
+  });
+});
+
+describe("guessTextColumn", () => {
+  it("picks the column with the longest cells", () => {
+    const table = parseDelimited(
+      "id,answer,score\n1,Cats purr on the sofa,5\n2,Dogs bark,4",
+    );
+    expect(guessTextColumn(table)).toBe("answer");
+  });
+});
+
+describe("formatDelimited", () => {
+  it("writes a table that parses back to itself", () => {
+    for (const delimiter of [",", "\t", ";"] as const) {
+      const table = {
+        headers: ["id", "answer"],
+        rows: [
+          ["1", `Cats${delimiter} mostly`],
+          ["2", 'She said "woof"\nand left'],
+        ],
+        delimiter,
+      };
+      expect(parseDelimited(formatDelimited(table), delimiter)).toEqual(table);
+    }
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Minimal RFC 4180 CSV / TSV parser for row mode.
+ *
+ * Handles quoted fields with embedded delimiters, quotes and newlines; the
+ * delimiter is sniffed from the header line when not given.
+ */
+
+export type Delimiter = "," | "\t" | ";";
+
+export interface ParsedTable {
+  headers: string[];
+  rows: string[][];
+  delimiter: Delimiter;
+}
+
+/**
+ * Guess the delimiter from the first line by counting candidates outside quotes.
+ */
+export function detectDelimiter(text: string): Delimiter {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const counts: Record<Delimiter, number> = { ",": 0, "\t": 0, ";": 0 };
+  let inQuotes = false;
+  for (const ch of firstLine) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && ch in counts) counts[ch as Delimiter]++;
+  }
+  if (counts["\t"] > 0 && counts["\t"] >= counts[","]) return "\t";
+  if (counts[";"] > counts[","]) return ";";
+  return ",";
+}
+
+export function parseDelimited(
+  text: string,
+  delimiter?: Delimiter,
+): ParsedTable {
+  const delim = delimiter ?? detectDelimiter(text);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field.length === 0) {
+      inQuotes = true;
+    } else if (ch === delim) {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field.length > 0 || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // drop blank lines
+  const nonEmpty = records.filter((r) => r.some((f) => f.trim().length > 0));
+  const [headerRow = [], ...rows] = nonEmpty;
+  const headers = headerRow.map((h, i) => h.trim() || `column_${i + 1}`);
+
+  return { headers, rows, delimiter: delim };
+}
+
+/**
+ * Write a table back out in its own delimiter, quoting fields that contain
+ * it, quotes or line breaks.
+ */
+export function formatDelimited(table: ParsedTable): string {
+  const special = new RegExp(`["\r\n${table.delimiter}]`);
+  const field = (value: string) =>
+    special.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return [table.headers, ...table.rows]
+    .map((record) => record.map(field).join(table.delimiter))
+    .join("\n");
+}
+
+/**
+ * Pick the column that most likely holds free text: the one with the
+ * longest average cell length.
+ */
+export function guessTextColumn(table: ParsedTable): string | undefined {
+  let best: string | undefined;
+  let bestLength = -1;
+  table.headers.forEach((header, col) => {
+    const total = table.rows.reduce(
+      (sum, row) => sum + (row[col] ?? "").length,
+      0,
+    );
+    const avg = table.rows.length ? total / table.rows.length : 0;
+    if (avg > bestLength) {
+      best = header;
+      bestLength = avg;
+    }
+  });
+  return best;
+}
@@ -0,0 +1,320 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyEdit,
+  CurationError,
+  editProblem,
+  emptyHistory,
+  MAX_UNDO_STEPS,
+  rebaseEdits,
+  recordEdit,
+  redoEdit,
+  replayEdits,
+  undoEdit,
+  type TreeEdit,
+} from "./curation";
+import { analyseText, recutTaxonomy } from "../pipeline";
+import type { TaxonomyNode } from "../types";
+
+function nodes(tree: TaxonomyNode): TaxonomyNode[] {
+  return [tree, ...(tree.children ?? []).flatMap(nodes)];
+}
+
+const find = (tree: TaxonomyNode, id: number) =>
+  nodes(tree).find((node) => node.id === id);
+
+// root(0) > pets(1) > [cat(3), dog(4), kitten(5)]; fish(2) > [trout(6), salmon(7)]
+function sample(): TaxonomyNode {
+  const leaf = (id: number, name: string): TaxonomyNode => ({
+    id,
+    name,
+    fullText: name,
+    silhouette: 0.5,
+  });
+  return {
+    id: 0,
+    name: "root",
+    children: [
+      {
+        id: 1,
+        name: "pets",
+        clusterLabel: "Pets",
+        height: 0.4,
+        children: [leaf(3, "cat"), leaf(4, "dog"), leaf(5, "kitten")],
+      },
+      {
+        id: 2,
+        name: "fish",
+        clusterLabel: "Fish",
+        height: 0.3,
+        children: [leaf(6, "trout"), leaf(7, "salmon")],
+      },
+    ],
+  };
+}
+
+// Leaf names under each top-level cluster, by label
+function outline(tree: TaxonomyNode): Record<string, string[]> {
+  return Object.fromEntries(
+    tree.children!.map((child) => [
+      child.clusterLabel ?? child.name,
+      nodes(child)
+        .filter((node) => !node.children)
+        .map((node) => node.name),
+    ]),
+  );
+}
+
+describe("applyEdit", () => {
+  it("renames a cluster without touching the tree it was given", () => {
+    const tree = sample();
+    const renamed = applyEdit(tree, {
+      kind: "rename",
+      nodeId: 1,
+      label: "  Animals ",
+    });
+    expect(find(renamed, 1)?.clusterLabel).toBe("Animals");
+    expect(tree).toEqual(sample());
+  });
+
+  it("moves items and removes the cluster a move empties", () => {
+    const moved = applyEdit(sample(), {
+      kind: "move",
+      nodeIds: [6, 7],
+      targetId: 1,
+    });
+    expect(outline(moved)).toEqual({
+      Pets: ["cat", "dog", "kitten", "trout", "salmon"],
+    });
+    expect(find(moved, 6)?.silhouette).toBeUndefined();
+    expect(find(moved, 1)?.sampleLeaves).toEqual([
+      "cat",
+      "dog",
+      "kitten",
+      "trout",
+      "salmon",
+    ]);
+  });
+
+  it("merges siblings into a new cluster in place of the first", () => {
+    const merged = applyEdit(sample(), { kind: "merge", nodeIds: [2, 1] });
+    expect(merged.children).toHaveLength(1);
+    expect(merged.children![0]).toMatchObject({
+      id: 8,
+      clusterLabel: "Pets",
+      height: 0.4,
+    });
+    expect(outline(merged)).toEqual({
+      Pets: ["cat", "dog", "kitten", "trout", "salmon"],
+    });
+  });
+
+  it("splits children off into a cluster beside their own", () => {
+    const split = applyEdit(sample(), {
+      kind: "split",
+      nodeId: 1,
+      childIds: [4],
+    });
+    expect(outline(split)).toEqual({
+      Pets: ["cat", "kitten"],
+      "Pets (split)": ["dog"],
+      Fish: ["trout", "salmon"],
+    });
+    expect(split.children![1]).toMatchObject({ id: 8, height: 0.4 });
+  });
+
+  it("deletes subtrees and creates empty categories", () => {
+    const deleted = applyEdit(sample(), { kind: "delete", nodeIds: [2, 6, 3] });
+    expect(outline(deleted)).toEqual({ Pets: ["dog", "kitten"] });
+
+    const created = applyEdit(sample(), {
+      kind: "create",
+      parentId: 0,
+      label: "Birds",
+    });
+    expect(created.children![2]).toMatchObject({
+      id: 8,
+      clusterLabel: "Birds",
+      children: [],
+    });
+  });
+
+  it("explains and refuses edits that do not fit the tree", () => {
+    const tree = sample();
+    const refused: [TreeEdit, RegExp][] = [
+      [{ kind: "rename", nodeId: 3, label: "Cat" }, /Only clusters/],
+      [{ kind: "rename", nodeId: 1, label: " " }, /Enter a label/],
+      [{ kind: "move", nodeIds: [1], targetId: 3 }, /onto a cluster/],
+      [{ kind: "move", nodeIds: [0], targetId: 1 }, /into itself/],
+      [{ kind: "move", nodeIds: [3], targetId: 1 }, /Already/],
+      [{ kind: "merge", nodeIds: [3, 6] }, /Only siblings/],
+      [{ kind: "split", nodeId: 1, childIds: [3, 4, 5] }, /at least one/],
+      [{ kind: "split", nodeId: 1, childIds: [6] }, /inside one cluster/],
+      [{ kind: "delete", nodeIds: [0] }, /root/],
+      [{ kind: "delete", nodeIds: [42] }, /no longer in the tree/],
+    ];
+    for (const [edit, message] of refused) {
+      expect(editProblem(tree, edit)).toMatch(message);
+      expect(() => applyEdit(tree, edit)).toThrow(CurationError);
+    }
+    expect(
+      editProblem(tree, { kind: "move", nodeIds: [3], targetId: 2 }),
+    ).toBeNull();
+  });
+});
+
+describe("edit history", () => {
+  it("undoes and redoes whole trees, and a new edit clears the redo list", () => {
+    const tree = sample();
+    let { history, tree: current } = recordEdit(emptyHistory(), tree, {
+      kind: "rename",
+      nodeId: 2,
+      label: "Fishes",
+    });
+    ({ history, tree: current } = recordEdit(history, current, {
+      kind: "delete",
+      nodeIds: [3],
+    }));
+    expect(history.done.map((step) => step.description)).toEqual([
+      'Renamed "Fish" to "Fishes"',
+      'Deleted "cat"',
+    ]);
+
+    const undone = undoEdit(history)!;
+    expect(find(undone.tree, 3)).toBeDefined();
+    expect(undone.history.undone).toHaveLength(1);
+    const redone = redoEdit(undone.history)!;
+    expect(redone.tree).toBe(current);
+    expect(redoEdit(redone.history)).toBeNull();
+    expect(undoEdit(emptyHistory())).toBeNull();
+
+    const branched = recordEdit(undone.history, undone.tree, {
+      kind: "create",
+      parentId: 0,
+      label: "Birds",
+    });
+    expect(branched.history.undone).toEqual([]);
+    expect(branched.history.done).toHaveLength(2);
+  });
+
+  it("forgets the oldest steps beyond the undo limit", () => {
+    let history = emptyHistory();
+    let tree = sample();
+    for (let i = 0; i <= MAX_UNDO_STEPS; i++)
+      ({ history, tree } = recordEdit(history, tree, {
+        kind: "rename",
+        nodeId: 1,
+        label: `Pets ${i}`,
+      }));
+    expect(history.done).toHaveLength(MAX_UNDO_STEPS);
+    expect(history.done[0].edit).toMatchObject({ label: "Pets 1" });
+  });
+
+  it("replays a logged history onto its base tree", () => {
+    const base = sample();
+    let { history, tree } = recordEdit(emptyHistory(), base, {
+      kind: "split",
+      nodeId: 1,
+      childIds: [4],
+    });
+    ({ history, tree } = recordEdit(history, tree, {
+      kind: "rename",
+      nodeId: 8,
+      label: "Dogs",
+    }));
+    const log = history.done.map(({ edit, description, at }) => ({
+      edit,
+      description,
+      at,
+    }));
+
+    const replayed = replayEdits(base, log);
+    expect(replayed.tree).toEqual(tree);
+    expect(
+      replayed.history.done.map(({ description, at }) => ({ description, at })),
+    ).toEqual(log.map(({ description, at }) => ({ description, at })));
+    expect(() => replayEdits(base, [log[1]])).toThrow(CurationError);
+  });
+});
+
+describe("rebaseEdits", () => {
+  const analysis = analyseText(
+    "Cats purr on the sofa. Kittens purr in the sun. Dogs bark at the postman. Puppies bark at night. Trout swim upstream. Salmon swim to sea. Eagles fly over hills. Hawks fly over fields.",
+    "sentence",
+    { linkage: "average" },
+  );
+  const coarse = recutTaxonomy(analysis, { by: "count", count: 2 });
+  const fine = recutTaxonomy(analysis, { by: "count", count: 4 });
+
+  it("gets the same node ids for a subtree in every cut", () => {
+    const ids = (tree: TaxonomyNode) =>
+      new Set(nodes(tree).map((node) => node.id));
+    const shared = [...ids(fine)].filter((id) => ids(coarse).has(id));
+    // The root and every cluster of the fine cut lie inside the coarse one
+    expect(shared).toEqual([...ids(fine)]);
+    expect(recutTaxonomy(analysis, { by: "count", count: 4 })).toEqual(fine);
+  });
+
+  it("carries edits over to another cut and drops the ones that no longer fit", () => {
+    const top = coarse.children!;
+    // A cluster below the top level of the coarse cut, at the top of the fine one
+    const inner = nodes(coarse).find(
+      (node) =>
+        node !== coarse &&
+        !top.includes(node) &&
+        node.children &&
+        find(fine, node.id!),
+    )!;
+    const edits: TreeEdit[] = [
+      { kind: "rename", nodeId: inner.id!, label: "Renamed" },
+      // The two top-level clusters of the coarse cut are split in the fine one
+      {
+        kind: "merge",
+        nodeIds: top.map((child) => child.id!),
+        label: "Everything",
+      },
+      { kind: "create", parentId: coarse.id!, label: "Later" },
+    ];
+    let history = emptyHistory();
+    let tree = coarse;
+    for (const edit of edits)
+      ({ history, tree } = recordEdit(history, tree, edit));
+    // The last edit names the category made by the one before it
+    const created = nodes(tree).find((node) => node.clusterLabel === "Later")!;
+    ({ history, tree } = recordEdit(history, tree, {
+      kind: "rename",
+      nodeId: created.id!,
+      label: "Later, renamed",
+    }));
+
+    const rebased = rebaseEdits(history, fine);
+    expect(rebased.dropped.map((edit) => edit.edit.kind)).toEqual(["merge"]);
+    expect(rebased.history.done).toHaveLength(3);
+    expect(rebased.history.done[0].before).toBe(fine);
+    expect(find(rebased.tree, inner.id!)?.clusterLabel).toBe("Renamed");
+    expect(
+      nodes(rebased.tree).filter(
+        (node) => node.clusterLabel === "Later, renamed",
+      ),
+    ).toHaveLength(1);
+    expect(rebased.tree.children).toHaveLength(fine.children!.length + 1);
+  });
+
+  it("leaves out edits on nodes made by a dropped edit", () => {
+    const top = coarse.children!;
+    let { history, tree } = recordEdit(emptyHistory(), coarse, {
+      kind: "merge",
+      nodeIds: top.map((child) => child.id!),
+    });
+    const merged = tree.children![0];
+    ({ history, tree } = recordEdit(history, tree, {
+      kind: "rename",
+      nodeId: merged.id!,
+      label: "All",
+    }));
+
+    const rebased = rebaseEdits(history, fine);
+    expect(rebased.dropped).toHaveLength(2);
+    expect(rebased.tree).toBe(fine);
+    expect(rebased.history).toEqual(emptyHistory());
+  });
+});
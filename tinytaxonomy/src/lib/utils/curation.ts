@@ -0,0 +1,533 @@
+/**
+ * Manual curation of a taxonomy tree.
+ *
+ * Edits address nodes by `id` and never modify the tree they are given:
+ * `applyEdit` returns an edited copy, so undo and redo only swap whole trees
+ * (neighbouring steps share them: one copy per edit). Clusters
+ * left without children by a move, merge or delete are removed; empty
+ * categories only exist when created on purpose. Merge heights and keywords
+ * still describe the original clustering, while the sample members of the
+ * clusters an edit touches are refreshed.
+ */
+
+import type { TaxonomyNode } from "../types";
+
+export type TreeEdit =
+  // Give a cluster a new label
+  | { kind: "rename"; nodeId: number; label: string }
+  // Move leaves or subtrees under another cluster
+  | { kind: "move"; nodeIds: number[]; targetId: number }
+  // Combine siblings into one cluster: clusters bring their children, leaves themselves
+  | { kind: "merge"; nodeIds: number[]; label?: string }
+  // Move some children of a cluster into a new cluster beside it
+  | { kind: "split"; nodeId: number; childIds: number[]; label?: string }
+  // Remove leaves or whole subtrees
+  | { kind: "delete"; nodeIds: number[] }
+  // Add an empty category under a cluster
+  | { kind: "create"; parentId: number; label: string };
+
+export interface CurationStep {
+  edit: TreeEdit;
+  description: string;
+  // ISO timestamp
+  at: string;
+  before: TaxonomyNode;
+  after: TaxonomyNode;
+}
+
+// What the edit log keeps of a step (saved sessions replay these)
+export type LoggedEdit = Pick<CurationStep, "edit" | "description" | "at">;
+
+// A tree's edits: the tree they start from and the log to replay on it
+export interface CurationLog {
+  base: TaxonomyNode;
+  edits: LoggedEdit[];
+}
+
+export interface CurationHistory {
+  // Applied edits, oldest first
+  done: CurationStep[];
+  // Undone edits, the most recently undone last
+  undone: CurationStep[];
+}
+
+// Oldest edits are forgotten beyond this many
+export const MAX_UNDO_STEPS = 100;
+
+// Sample members kept on a cluster for tooltips, as the labelling does
+const SAMPLE_LEAVES = 5;
+
+export class CurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CurationError";
+  }
+}
+
+function childrenOf(node: TaxonomyNode): TaxonomyNode[] {
+  return node.children ?? node._children ?? [];
+}
+
+/**
+ * Whether a node can hold other nodes: a cluster, or an empty category.
+ */
+export function isCategory(node: TaxonomyNode): boolean {
+  return childrenOf(node).length > 0 || node.type === "cluster";
+}
+
+function labelOf(node: TaxonomyNode): string {
+  if (!isCategory(node)) return node.fullText ?? node.name;
+  return node.clusterLabel ?? node.clusterKeywords?.join(" / ") ?? node.name;
+}
+
+interface TreeIndex {
+  nodes: Map<number, TaxonomyNode>;
+  parents: Map<number, TaxonomyNode>;
+  maxId: number;
+}
+
+function indexTree(tree: TaxonomyNode): TreeIndex {
+  const index: TreeIndex = { nodes: new Map(), parents: new Map(), maxId: 0 };
+  (function visit(node: TaxonomyNode, parent: TaxonomyNode | null) {
+    if (node.id !== undefined) {
+      index.nodes.set(node.id, node);
+      if (parent) index.parents.set(node.id, parent);
+      index.maxId = Math.max(index.maxId, node.id);
+    }
+    for (const child of childrenOf(node)) visit(child, node);
+  })(tree, null);
+  return index;
+}
+
+function isWithin(index: TreeIndex, id: number, ancestorId: number): boolean {
+  for (
+    let node = index.nodes.get(id);
+    node;
+    node = index.parents.get(node.id!)
+  ) {
+    if (node.id === ancestorId) return true;
+  }
+  return false;
+}
+
+function siblingsProblem(index: TreeIndex, ids: number[]): string | null {
+  const parents = new Set(ids.map((id) => index.parents.get(id)));
+  if (parents.has(undefined)) return "The root cannot be merged";
+  return parents.size > 1
+    ? "Only siblings (children of one cluster) can be merged"
+    : null;
+}
+
+/**
+ * Why `edit` cannot be applied to `tree`, or null when it can.
+ */
+export function editProblem(tree: TaxonomyNode, edit: TreeEdit): string | null {
+  const index = indexTree(tree);
+  const ids =
+    "nodeIds" in edit ? edit.nodeIds : "childIds" in edit ? edit.childIds : [];
+  if (ids.some((id) => !index.nodes.has(id)))
+    return "Some of the selected nodes are no longer in the tree";
+
+  switch (edit.kind) {
+    case "rename": {
+      const node = index.nodes.get(edit.nodeId);
+      if (!node) return "The node is no longer in the tree";
+      if (!isCategory(node)) return "Only clusters can be renamed";
+      return edit.label.trim() ? null : "Enter a label";
+    }
+    case "move": {
+      const target = index.nodes.get(edit.targetId);
+      if (!target) return "The target is no longer in the tree";
+      if (!isCategory(target)) return "Drop onto a cluster or category";
+      if (edit.nodeIds.length === 0) return "Select something to move";
+      if (edit.nodeIds.some((id) => isWithin(index, edit.targetId, id)))
+        return "A cluster cannot move into itself";
+      if (edit.nodeIds.every((id) => index.parents.get(id) === target))
+        return "Already in that cluster";
+      return null;
+    }
+    case "merge":
+      if (edit.nodeIds.length < 2)
+        return "Select at least two siblings to merge";
+      return siblingsProblem(index, edit.nodeIds);
+    case "split": {
+      const node = index.nodes.get(edit.nodeId);
+      if (!node) return "The cluster is no longer in the tree";
+      if (!index.parents.has(edit.nodeId))
+        return "Top-level items: merge them into a cluster instead";
+      const children = childrenOf(node);
+      if (edit.childIds.length === 0) return "Select the items to split off";
+      if (
+        edit.childIds.some((id) => !children.some((child) => child.id === id))
+      ) {
+        return "Select items inside one cluster to split them off";
+      }
+      return edit.childIds.length < children.length
+        ? null
+        : "Leave at least one item in the cluster";
+    }
+    case "delete":
+      if (edit.nodeIds.length === 0) return "Select something to delete";
+      return edit.nodeIds.some((id) => !index.parents.has(id))
+        ? "The root cannot be deleted"
+        : null;
+    case "create": {
+      const parent = index.nodes.get(edit.parentId);
+      if (!parent) return "The cluster is no longer in the tree";
+      if (!isCategory(parent)) return "Categories go inside clusters";
+      return edit.label.trim() ? null : "Enter a label";
+    }
+  }
+}
+
+/**
+ * A short account of `edit` for the edit log, in terms of `tree` before it.
+ */
+export function describeEdit(tree: TaxonomyNode, edit: TreeEdit): string {
+  const index = indexTree(tree);
+  const name = (id: number) => {
+    const node = index.nodes.get(id);
+    const label = node ? labelOf(node) : `#${id}`;
+    return `"${label.length > 40 ? label.slice(0, 37) + "..." : label}"`;
+  };
+  const names = (ids: number[]) =>
+    ids.length === 1 ? name(ids[0]) : `${ids.length} items`;
+
+  switch (edit.kind) {
+    case "rename":
+      return `Renamed ${name(edit.nodeId)} to "${edit.label.trim()}"`;
+    case "move":
+      return `Moved ${names(edit.nodeIds)} to ${name(edit.targetId)}`;
+    case "merge":
+      return `Merged ${edit.nodeIds.map(name).join(", ")}`;
+    case "split":
+      return `Split ${names(edit.childIds)} off ${name(edit.nodeId)}`;
+    case "delete":
+      return `Deleted ${names(edit.nodeIds)}`;
+    case "create":
+      return `Created "${edit.label.trim()}" in ${name(edit.parentId)}`;
+  }
+}
+
+/**
+ * Apply `edit` to a copy of `tree`. Throws a `CurationError` when the edit
+ * does not fit the tree (see `editProblem`).
+ */
+export function applyEdit(tree: TaxonomyNode, edit: TreeEdit): TaxonomyNode {
+  const problem = editProblem(tree, edit);
+  if (problem) throw new CurationError(problem);
+
+  const copy: TaxonomyNode = JSON.parse(JSON.stringify(tree));
+  const index = indexTree(copy);
+  let nextId = index.maxId + 1;
+  // Clusters whose members changed, for the sample refresh
+  const touched = new Set<TaxonomyNode>();
+  // Clusters left without children
+  const emptied = new Set<TaxonomyNode>();
+
+  const detach = (id: number): TaxonomyNode => {
+    const node = index.nodes.get(id)!;
+    const parent = index.parents.get(id)!;
+    setChildren(
+      parent,
+      childrenOf(parent).filter((child) => child !== node),
+    );
+    touched.add(parent);
+    if (childrenOf(parent).length === 0) emptied.add(parent);
+    return node;
+  };
+  const newCluster = (
+    label: string,
+    children: TaxonomyNode[],
+    height?: number,
+  ): TaxonomyNode => ({
+    id: nextId++,
+    name: label,
+    clusterLabel: label,
+    ...(height !== undefined ? { height } : {}),
+    children,
+    type: "cluster",
+  });
+
+  switch (edit.kind) {
+    case "rename": {
+      const node = index.nodes.get(edit.nodeId)!;
+      node.clusterLabel = edit.label.trim();
+      break;
+    }
+    case "move": {
+      const target = index.nodes.get(edit.targetId)!;
+      // A node inside another moved subtree travels with it
+      const moved = edit.nodeIds.filter(
+        (id) =>
+          !edit.nodeIds.some(
+            (other) => other !== id && isWithin(index, id, other),
+          ),
+      );
+      const nodes = moved.map(detach);
+      nodes.forEach(forgetSilhouettes);
+      setChildren(target, [...childrenOf(target), ...nodes]);
+      touched.add(target);
+      break;
+    }
+    case "merge": {
+      const parent = index.parents.get(edit.nodeIds[0])!;
+      const siblings = childrenOf(parent);
+      const merged = siblings.filter(
+        (child) => child.id !== undefined && edit.nodeIds.includes(child.id),
+      );
+      const first = merged.find(isCategory);
+      const members = merged.flatMap((node) =>
+        isCategory(node) ? childrenOf(node) : [node],
+      );
+      const heights = merged
+        .map((node) => node.height)
+        .filter((h): h is number => typeof h === "number");
+      const cluster = newCluster(
+        edit.label?.trim() || (first ? labelOf(first) : "New category"),
+        members,
+        heights.length ? Math.max(...heights) : undefined,
+      );
+      if (first?.clusterKeywords)
+        cluster.clusterKeywords = first.clusterKeywords;
+      const at = siblings.indexOf(merged[0]);
+      const rest = siblings.filter((child) => !merged.includes(child));
+      rest.splice(at, 0, cluster);
+      setChildren(parent, rest);
+      touched.add(parent).add(cluster);
+      break;
+    }
+    case "split": {
+      const node = index.nodes.get(edit.nodeId)!;
+      const parent = index.parents.get(edit.nodeId)!;
+      const members = edit.childIds.map(detach);
+      const cluster = newCluster(
+        edit.label?.trim() || `${labelOf(node)} (split)`,
+        members,
+        node.height,
+      );
+      const siblings = [...childrenOf(parent)];
+      siblings.splice(siblings.indexOf(node) + 1, 0, cluster);
+      setChildren(parent, siblings);
+      touched.add(cluster);
+      break;
+    }
+    case "delete": {
+      for (const id of edit.nodeIds) {
+        // Already gone with a deleted ancestor
+        if (
+          edit.nodeIds.some(
+            (other) => other !== id && isWithin(index, id, other),
+          )
+        )
+          continue;
+        detach(id);
+      }
+      break;
+    }
+    case "create": {
+      const parent = index.nodes.get(edit.parentId)!;
+      setChildren(parent, [
+        ...childrenOf(parent),
+        newCluster(edit.label.trim(), []),
+      ]);
+      break;
+    }
+  }
+
+  removeEmptied(copy, emptied, touched);
+  refreshSamples(copy, touched);
+  return copy;
+}
+
+// Keep a collapsed node collapsed
+function setChildren(node: TaxonomyNode, children: TaxonomyNode[]) {
+  if (node.children === undefined && node._children) node._children = children;
+  else node.children = children;
+}
+
+// Silhouettes describe the original clusters; moved leaves no longer have one
+function forgetSilhouettes(node: TaxonomyNode) {
+  delete node.silhouette;
+  childrenOf(node).forEach(forgetSilhouettes);
+}
+
+// Drop clusters an edit has emptied, and any ancestor that empties in turn
+function removeEmptied(
+  tree: TaxonomyNode,
+  emptied: Set<TaxonomyNode>,
+  touched: Set<TaxonomyNode>,
+) {
+  if (emptied.size === 0) return;
+  (function prune(node: TaxonomyNode): boolean {
+    const children = childrenOf(node);
+    const kept = children.filter(prune);
+    if (kept.length !== children.length) {
+      setChildren(node, kept);
+      touched.add(node);
+      if (kept.length === 0) emptied.add(node);
+    }
+    return !emptied.has(node);
+  })(tree);
+}
+
+// Re-sample the members of touched clusters and their ancestors
+function refreshSamples(tree: TaxonomyNode, touched: Set<TaxonomyNode>) {
+  (function visit(node: TaxonomyNode): { texts: string[]; changed: boolean } {
+    const children = childrenOf(node);
+    if (!isCategory(node))
+      return { texts: [node.fullText ?? node.name], changed: false };
+    const results = children.map(visit);
+    const changed = touched.has(node) || results.some((r) => r.changed);
+    const texts = results.flatMap((r) => r.texts).slice(0, SAMPLE_LEAVES);
+    if (changed) node.sampleLeaves = texts;
+    return { texts, changed };
+  })(tree);
+}
+
+export function emptyHistory(): CurationHistory {
+  return { done: [], undone: [] };
+}
+
+/**
+ * Apply `edit` and record it; a new edit clears the redo list.
+ */
+export function recordEdit(
+  history: CurationHistory,
+  tree: TaxonomyNode,
+  edit: TreeEdit,
+): { history: CurationHistory; tree: TaxonomyNode } {
+  const after = applyEdit(tree, edit);
+  const step: CurationStep = {
+    edit,
+    description: describeEdit(tree, edit),
+    at: new Date().toISOString(),
+    before: tree,
+    after,
+  };
+  return {
+    history: {
+      done: [...history.done, step].slice(-MAX_UNDO_STEPS),
+      undone: [],
+    },
+    tree: after,
+  };
+}
+
+export function undoEdit(
+  history: CurationHistory,
+): { history: CurationHistory; tree: TaxonomyNode } | null {
+  const step = history.done[history.done.length - 1];
+  if (!step) return null;
+  return {
+    history: {
+      done: history.done.slice(0, -1),
+      undone: [...history.undone, step],
+    },
+    tree: step.before,
+  };
+}
+
+export function redoEdit(
+  history: CurationHistory,
+): { history: CurationHistory; tree: TaxonomyNode } | null {
+  const step = history.undone[history.undone.length - 1];
+  if (!step) return null;
+  return {
+    history: {
+      done: [...history.done, step],
+      undone: history.undone.slice(0, -1),
+    },
+    tree: step.after,
+  };
+}
+
+/**
+ * Rebuild a history by replaying logged edits on the tree they started
+ * from, keeping their descriptions and times.
+ */
+export function replayEdits(
+  tree: TaxonomyNode,
+  edits: LoggedEdit[],
+): { history: CurationHistory; tree: TaxonomyNode } {
+  const done: CurationStep[] = [];
+  let current = tree;
+  for (const { edit, description, at } of edits) {
+    const after = applyEdit(current, edit);
+    done.push({ edit, description, at, before: current, after });
+    current = after;
+  }
+  return { history: { done, undone: [] }, tree: current };
+}
+
+function remapEdit(edit: TreeEdit, map: (id: number) => number): TreeEdit {
+  switch (edit.kind) {
+    case "rename":
+      return { ...edit, nodeId: map(edit.nodeId) };
+    case "move":
+      return {
+        ...edit,
+        nodeIds: edit.nodeIds.map(map),
+        targetId: map(edit.targetId),
+      };
+    case "merge":
+    case "delete":
+      return { ...edit, nodeIds: edit.nodeIds.map(map) };
+    case "split":
+      return {
+        ...edit,
+        nodeId: map(edit.nodeId),
+        childIds: edit.childIds.map(map),
+      };
+    case "create":
+      return { ...edit, parentId: map(edit.parentId) };
+  }
+}
+
+// Ids of the nodes an edit made (merge, split and create make one each)
+function madeIds(before: TaxonomyNode, after: TaxonomyNode): number[] {
+  const existing = indexTree(before).nodes;
+  return [...indexTree(after).nodes.keys()]
+    .filter((id) => !existing.has(id))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Carry the applied edits of `history` over to `tree`, another cut of the
+ * same clustering (node ids follow the dendrogram, so a subtree keeps its id
+ * from cut to cut). Nodes made by an edit are matched with the ones it makes
+ * on the new tree. Edits that no longer fit, because a node they name is not
+ * in this cut or for any reason `editProblem` gives, are left out and
+ * returned as `dropped`; the redo list is cleared.
+ */
+export function rebaseEdits(
+  history: CurationHistory,
+  tree: TaxonomyNode,
+): { history: CurationHistory; tree: TaxonomyNode; dropped: LoggedEdit[] } {
+  const done: CurationStep[] = [];
+  const dropped: LoggedEdit[] = [];
+  // Made by an earlier edit: its id on the new tree, or -1 when that edit was dropped
+  const made = new Map<number, number>();
+  // Made while rebasing; only reachable through `made`
+  const madeNow = new Set<number>();
+  const map = (id: number) => made.get(id) ?? (madeNow.has(id) ? -1 : id);
+
+  let current = tree;
+  for (const step of history.done) {
+    const { edit, description, at } = step;
+    const old = madeIds(step.before, step.after);
+    const rebased = remapEdit(edit, map);
+    if (editProblem(current, rebased)) {
+      old.forEach((id) => made.set(id, -1));
+      dropped.push({ edit, description, at });
+      continue;
+    }
+    const after = applyEdit(current, rebased);
+    const now = madeIds(current, after);
+    old.forEach((id, i) => made.set(id, now[i] ?? -1));
+    now.forEach((id) => madeNow.add(id));
+    done.push({ edit: rebased, description, at, before: current, after });
+    current = after;
+  }
+  return { history: { done, undone: [] }, tree: current, dropped };
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  denseToSparse,
+  readEmbeddings,
+  termEmbedding,
+  type WordEmbeddings,
+} from "./embeddings";
+
+// A stream that delivers `bytes` in pieces of `size` bytes
+function streamOf(bytes: Uint8Array, size = 7): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += size)
+        controller.enqueue(bytes.slice(i, i + size));
+      controller.close();
+    },
+  });
+}
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+function word2vec(entries: [string, number[]][]): Uint8Array {
+  const dimensions = entries[0][1].length;
+  const parts: Uint8Array[] = [encode(`${entries.length} ${dimensions}\n`)];
+  for (const [word, values] of entries) {
+    parts.push(encode(`${word} `));
+    const vector = new DataView(new ArrayBuffer(dimensions * 4));
+    values.forEach((v, d) => vector.setFloat32(d * 4, v, true));
+    parts.push(new Uint8Array(vector.buffer), encode("\n"));
+  }
+  const bytes = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+describe("readEmbeddings", () => {
+  it("reads text vectors across chunks, unit length and lower-cased once", async () => {
+    const file = encode(
+      "4 2\ncat 3 4\nCat 1 0\ndog 0 2\nnull 0 0\nbig apple 1 1\nfish 1 0",
+    );
+    const progress: number[] = [];
+    const embeddings = await readEmbeddings(
+      "tiny.vec",
+      streamOf(file),
+      { totalBytes: file.length },
+      (f) => progress.push(f),
+    );
+    expect(embeddings.name).toBe("tiny.vec");
+    expect(embeddings.dimensions).toBe(2);
+    expect(embeddings.words).toEqual(["cat", "dog", "fish"]);
+    expect(Array.from(embeddings.vectors)).toEqual([
+      expect.closeTo(0.6, 6),
+      expect.closeTo(0.8, 6),
+      0,
+      1,
+      1,
+      0,
+    ]);
+    expect(progress.at(-1)).toBe(1);
+  });
+
+  it("stops after maxWords", async () => {
+    const embeddings = await readEmbeddings(
+      "glove.txt",
+      streamOf(encode("a 1 0\nb 0 1\nc 1 1\n")),
+      { maxWords: 2 },
+    );
+    expect(embeddings.words).toEqual(["a", "b"]);
+  });
+
+  it("reads word2vec binaries and rejects truncated ones", async () => {
+    const bytes = word2vec([
+      ["cat", [3, 4, 0]],
+      ["dog", [0, 0, 2]],
+    ]);
+    const embeddings = await readEmbeddings("vectors.bin", streamOf(bytes, 5));
+    expect(embeddings.words).toEqual(["cat", "dog"]);
+    expect(Array.from(embeddings.vectors)).toEqual([
+      expect.closeTo(0.6, 6),
+      expect.closeTo(0.8, 6),
+      0,
+      0,
+      0,
+      1,
+    ]);
+
+    await expect(
+      readEmbeddings("vectors.bin", streamOf(bytes.slice(0, -6))),
+    ).rejects.toThrow(/middle of a vector/);
+    await expect(
+      readEmbeddings("vectors.bin", streamOf(encode("cat 1 2\n"))),
+    ).rejects.toThrow(/no "count dimensions" header/);
+  });
+
+  it("rejects files without vectors", async () => {
+    await expect(
+      readEmbeddings("empty.txt", streamOf(encode("\n\n"))),
+    ).rejects.toThrow('No word vectors found in "empty.txt"');
+  });
+});
+
+describe("termEmbedding", () => {
+  const embeddings: WordEmbeddings = {
+    name: "tiny",
+    dimensions: 2,
+    words: ["semantic", "analysis"],
+    vectors: Float32Array.from([1, 0, 0, 1]),
+  };
+
+  it("averages the known words of n-grams and labels", () => {
+    expect(Array.from(termEmbedding(embeddings, "Semantic")!)).toEqual([1, 0]);
+    expect(Array.from(termEmbedding(embeddings, "semantic_analysis")!)).toEqual(
+      [0.5, 0.5],
+    );
+    expect(
+      Array.from(termEmbedding(embeddings, "latent semantic analysis")!),
+    ).toEqual([0.5, 0.5]);
+    expect(termEmbedding(embeddings, "unknown")).toBeNull();
+  });
+});
+
+describe("denseToSparse", () => {
+  it("scales to the given length from the offset", () => {
+    const sparse = denseToSparse(Float64Array.from([3, 4]), 10, 2);
+    expect(Array.from(sparse.indices)).toEqual([10, 11]);
+    expect(Array.from(sparse.values)).toEqual([
+      expect.closeTo(1.2, 9),
+      expect.closeTo(1.6, 9),
+    ]);
+    expect(denseToSparse(new Float64Array(3)).indices).toHaveLength(0);
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * Pre-trained word vectors (GloVe, fastText, word2vec).
+ *
+ * Files are read as a byte stream so multi-gigabyte downloads never have to
+ * fit in one string: text files (`word v1 v2 …` per line, with or without the
+ * fastText `count dimensions` header) and word2vec binaries (`count
+ * dimensions` header, then each word followed by its float32 values). These
+ * files list the most frequent words first, so reading stops after
+ * `maxWords`. Words are lowercased (the first, most frequent spelling wins)
+ * and every vector is scaled to unit length.
+ */
+
+import type { SparseVector } from "./math";
+
+export type EmbeddingFormat = "text" | "word2vec";
+
+export const DEFAULT_MAX_EMBEDDING_WORDS = 100_000;
+
+export interface WordEmbeddings {
+  // File name the vectors were loaded from; `WorkerOptions.embeddings` refers to it
+  name: string;
+  dimensions: number;
+  words: string[];
+  // words.length × dimensions, row-major, unit length
+  vectors: Float32Array;
+}
+
+export interface ReadEmbeddingsOptions {
+  format?: EmbeddingFormat;
+  maxWords?: number;
+  // File size, for progress
+  totalBytes?: number;
+}
+
+// word2vec binaries end in .bin; everything else is read as text
+export function embeddingFormatFor(fileName: string): EmbeddingFormat {
+  return fileName.toLowerCase().endsWith(".bin") ? "word2vec" : "text";
+}
+
+// Collects vectors into a growing buffer, normalising and de-duplicating words
+class EmbeddingCollector {
+  words: string[] = [];
+  private seen = new Set<string>();
+  private buffer = new Float32Array(0);
+
+  constructor(
+    public dimensions: number,
+    capacity: number,
+  ) {
+    this.buffer = new Float32Array(dimensions * Math.max(1, capacity));
+  }
+
+  add(word: string, values: ArrayLike<number>) {
+    const key = word.toLowerCase();
+    if (this.seen.has(key)) return;
+    let norm = 0;
+    for (let d = 0; d < this.dimensions; d++) norm += values[d] * values[d];
+    if (!(norm > 0) || !Number.isFinite(norm)) return;
+
+    const offset = this.words.length * this.dimensions;
+    if (offset + this.dimensions > this.buffer.length) {
+      const grown = new Float32Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    norm = Math.sqrt(norm);
+    for (let d = 0; d < this.dimensions; d++)
+      this.buffer[offset + d] = values[d] / norm;
+    this.seen.add(key);
+    this.words.push(key);
+  }
+
+  finish(name: string): WordEmbeddings {
+    if (this.words.length === 0) {
+      throw new Error(`No word vectors found in "${name}"`);
+    }
+    return {
+      name,
+      dimensions: this.dimensions,
+      words: this.words,
+      vectors: this.buffer.slice(0, this.words.length * this.dimensions),
+    };
+  }
+}
+
+/**
+ * Read word vectors from a byte stream (e.g. `File.stream()`). `onProgress`
+ * receives the fraction of `totalBytes` read.
+ */
+export async function readEmbeddings(
+  name: string,
+  stream: ReadableStream<Uint8Array>,
+  options: ReadEmbeddingsOptions = {},
+  onProgress?: (fraction: number) => void,
+): Promise<WordEmbeddings> {
+  const {
+    format = embeddingFormatFor(name),
+    maxWords = DEFAULT_MAX_EMBEDDING_WORDS,
+    totalBytes,
+  } = options;
+  const parser =
+    format === "word2vec"
+      ? new Word2VecParser(maxWords)
+      : new TextParser(maxWords);
+  const reader = stream.getReader();
+  let read = 0;
+  try {
+    while (!parser.full) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.push(value);
+      read += value.length;
+      if (totalBytes) onProgress?.(Math.min(1, read / totalBytes));
+    }
+    if (!parser.full) parser.end();
+  } finally {
+    // Frequency-ordered files: the rest would be dropped anyway
+    await reader.cancel().catch(() => undefined);
+  }
+  onProgress?.(1);
+  return parser.result(name);
+}
+
+interface EmbeddingParser {
+  full: boolean;
+  push(chunk: Uint8Array): void;
+  end(): void;
+  result(name: string): WordEmbeddings;
+}
+
+// GloVe / fastText .vec: one `word v1 … vd` line per word
+class TextParser implements EmbeddingParser {
+  private decoder = new TextDecoder();
+  private pending = "";
+  private lineCount = 0;
+  private capacity = 0;
+  private collector: EmbeddingCollector | null = null;
+
+  constructor(private maxWords: number) {}
+
+  get full(): boolean {
+    return (this.collector?.words.length ?? 0) >= this.maxWords;
+  }
+
+  push(chunk: Uint8Array) {
+    const lines = (
+      this.pending + this.decoder.decode(chunk, { stream: true })
+    ).split("\n");
+    this.pending = lines.pop() ?? "";
+    for (const line of lines) {
+      this.line(line);
+      if (this.full) return;
+    }
+  }
+
+  end() {
+    this.line(this.pending + this.decoder.decode());
+    this.pending = "";
+  }
+
+  result(name: string): WordEmbeddings {
+    if (!this.collector) throw new Error(`No word vectors found in "${name}"`);
+    return this.collector.finish(name);
+  }
+
+  private line(line: string) {
+    const fields = line.trim().split(/\s+/);
+    if (fields.length < 2 || fields[0] === "") return;
+    // fastText header: word count and dimensions
+    if (
+      this.lineCount++ === 0 &&
+      fields.length === 2 &&
+      /^\d+$/.test(fields[0]) &&
+      /^\d+$/.test(fields[1])
+    ) {
+      this.capacity = Number(fields[0]);
+      return;
+    }
+    if (!this.collector) {
+      this.collector = new EmbeddingCollector(
+        fields.length - 1,
+        Math.min(this.maxWords, this.capacity || 10_000),
+      );
+    }
+    // Words containing spaces (some GloVe files) do not split cleanly
+    if (fields.length !== this.collector.dimensions + 1) return;
+    this.collector.add(fields[0], fields.slice(1).map(Number));
+  }
+}
+
+// word2vec binary: `count dimensions\n`, then `word ` and dimensions × float32 (little endian) per word
+class Word2VecParser implements EmbeddingParser {
+  private decoder = new TextDecoder();
+  private bytes = new Uint8Array(0);
+  private collector: EmbeddingCollector | null = null;
+
+  constructor(private maxWords: number) {}
+
+  get full(): boolean {
+    return (this.collector?.words.length ?? 0) >= this.maxWords;
+  }
+
+  push(chunk: Uint8Array) {
+    const joined = new Uint8Array(this.bytes.length + chunk.length);
+    joined.set(this.bytes);
+    joined.set(chunk, this.bytes.length);
+    this.bytes = joined.subarray(this.parse(joined));
+  }
+
+  end() {
+    if (this.collector && this.bytes.some((b) => b !== 0x0a && b !== 0x20)) {
+      throw new Error("The word2vec file ends in the middle of a vector");
+    }
+  }
+
+  result(name: string): WordEmbeddings {
+    if (!this.collector)
+      throw new Error(
+        `"${name}" is not a word2vec binary file (no "count dimensions" header)`,
+      );
+    return this.collector.finish(name);
+  }
+
+  // Consume whole entries; returns the offset of the first unread byte
+  private parse(bytes: Uint8Array): number {
+    let offset = 0;
+    if (!this.collector) {
+      const newline = bytes.indexOf(0x0a);
+      if (newline < 0) return 0;
+      const [count, dimensions] = this.decoder
+        .decode(bytes.subarray(0, newline))
+        .trim()
+        .split(/\s+/)
+        .map(Number);
+      if (!(count > 0) || !(dimensions > 0)) {
+        throw new Error(
+          'Not a word2vec binary file (no "count dimensions" header)',
+        );
+      }
+      this.collector = new EmbeddingCollector(
+        dimensions,
+        Math.min(this.maxWords, count),
+      );
+      offset = newline + 1;
+    }
+
+    const width = this.collector.dimensions * 4;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const values = new Float32Array(this.collector.dimensions);
+    while (!this.full) {
+      let start = offset;
+      while (
+        start < bytes.length &&
+        (bytes[start] === 0x0a || bytes[start] === 0x20)
+      )
+        start++;
+      const space = bytes.indexOf(0x20, start);
+      if (space < 0 || space + 1 + width > bytes.length) return start;
+      for (let d = 0; d < values.length; d++)
+        values[d] = view.getFloat32(space + 1 + d * 4, true);
+      this.collector.add(
+        this.decoder.decode(bytes.subarray(start, space)),
+        values,
+      );
+      offset = space + 1 + width;
+    }
+    return offset;
+  }
+}
+
+// Word → row, built once per set
+const indexCache = new WeakMap<WordEmbeddings, Map<string, number>>();
+
+function embeddingIndex(embeddings: WordEmbeddings): Map<string, number> {
+  let index = indexCache.get(embeddings);
+  if (!index) {
+    index = new Map(embeddings.words.map((word, i) => [word, i]));
+    indexCache.set(embeddings, index);
+  }
+  return index;
+}
+
+/**
+ * Vector for a term: its own for single words, the mean of the known words
+ * for n-grams and multi-word labels (`semantic_analysis`, `semantic
+ * analysis`). Null when no word is known.
+ */
+export function termEmbedding(
+  embeddings: WordEmbeddings,
+  term: string,
+): Float64Array | null {
+  const index = embeddingIndex(embeddings);
+  const { dimensions, vectors } = embeddings;
+  const sum = new Float64Array(dimensions);
+  let found = 0;
+  for (const word of term.toLowerCase().split(/[_\s]+/)) {
+    const row = index.get(word);
+    if (row === undefined) continue;
+    for (let d = 0; d < dimensions; d++)
+      sum[d] += vectors[row * dimensions + d];
+    found++;
+  }
+  if (found === 0) return null;
+  for (let d = 0; d < dimensions; d++) sum[d] /= found;
+  return sum;
+}
+
+/**
+ * Dense vector stored sparsely at length `scale`, starting at dimension
+ * `offset`, so it can go through the usual distance code; empty when
+ * `values` is all zero.
+ */
+export function denseToSparse(
+  values: Float64Array,
+  offset = 0,
+  scale = 1,
+): SparseVector {
+  let norm = 0;
+  for (let d = 0; d < values.length; d++) norm += values[d] * values[d];
+  if (norm === 0 || scale === 0)
+    return { indices: new Uint32Array(0), values: new Float64Array(0) };
+  norm = Math.sqrt(norm) / scale;
+  return {
+    indices: Uint32Array.from(values, (_, d) => offset + d),
+    values: Float64Array.from(values, (v) => v / norm),
+  };
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  countWords,
+  detectSourceKind,
+  readImportedFile,
+  stripMarkdown,
+} from "./fileImport";
+
+describe("detectSourceKind", () => {
+  it("goes by the extension, then the MIME type", () => {
+    expect(detectSourceKind("Notes.MD")).toBe("markdown");
+    expect(detectSourceKind("page.htm")).toBe("html");
+    expect(detectSourceKind("paper.pdf")).toBe("pdf");
+    expect(detectSourceKind("answers.txt")).toBe("text");
+    expect(detectSourceKind("download", "application/pdf")).toBe("pdf");
+    expect(detectSourceKind("notes", "text/plain")).toBe("text");
+    expect(detectSourceKind("photo.png", "image/png")).toBeNull();
+  });
+});
+
+describe("stripMarkdown", () => {
+  it("keeps the readable text and paragraph breaks", () => {
+    const markdown = [
+      "---",
+      "title: Pets",
+      "---",
+      "# Cats and *dogs*",
+      "",
+      "> Cats **purr**; see [the guide](https://example.com).",
+      "",
+      "- Dogs `bark`",
+      "1. ![Fish](fish.png) swim",
+      "",
+      "```js",
+      "console.log('code');",
+      "```",
+      "",
+      "| Pet | Sound |",
+      "| --- | ----- |",
+      "| cat | purr |",
+      "",
+      "***",
+      "<!-- note -->Done<br>",
+    ].join("\r\n");
+    expect(stripMarkdown(markdown)).toBe(
+      [
+        "Cats and dogs",
+        "",
+        "Cats purr; see the guide.",
+        "",
+        "Dogs bark",
+        "Fish swim",
+        "",
+        "Pet Sound",
+        "",
+        "cat purr",
+        "",
+        "Done",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("readImportedFile", () => {
+  it("cleans the text by kind and counts its words", async () => {
+    const markdown = await readImportedFile(
+      new File(["# Title\r\n\r\nSome *text* here"], "notes.md"),
+    );
+    expect(markdown).toEqual({
+      name: "notes.md",
+      kind: "markdown",
+      text: "Title\n\nSome text here",
+      wordCount: 4,
+    });
+
+    const text = await readImportedFile(
+      new File(["  one\r\ntwo  \r\n"], "plain.txt"),
+    );
+    expect(text.text).toBe("one\ntwo");
+    expect(text.wordCount).toBe(countWords("one two"));
+  });
+
+  it("rejects files it cannot read", async () => {
+    await expect(
+      readImportedFile(new File([new Uint8Array(4)], "photo.png")),
+    ).rejects.toThrow("photo.png: unsupported file type");
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Text extraction for imported files (.txt, .md, .html, .pdf, .csv, .tsv).
+ *
+ * Everything runs in the browser: Markdown and HTML are cleaned with plain
+ * string/DOM processing and PDFs are read with pdf.js, loaded on demand so
+ * the main bundle does not grow for users who only paste text. Tables are
+ * passed through unchanged for row mode.
+ */
+
+export type SourceKind = "text" | "markdown" | "html" | "pdf" | "table";
+
+export interface ImportedFile {
+  name: string;
+  kind: SourceKind;
+  text: string;
+  wordCount: number;
+}
+
+export const ACCEPTED_FILE_TYPES =
+  ".txt,.text,.md,.markdown,.html,.htm,.pdf,.csv,.tsv";
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter((w) => w.length > 0).length;
+}
+
+export function detectSourceKind(
+  name: string,
+  mimeType = "",
+): SourceKind | null {
+  const ext = name.toLowerCase().split(".").pop() ?? "";
+  if (ext === "pdf" || mimeType === "application/pdf") return "pdf";
+  if (
+    ext === "csv" ||
+    ext === "tsv" ||
+    mimeType === "text/csv" ||
+    mimeType === "text/tab-separated-values"
+  )
+    return "table";
+  if (ext === "html" || ext === "htm" || mimeType === "text/html")
+    return "html";
+  if (ext === "md" || ext === "markdown" || mimeType === "text/markdown")
+    return "markdown";
+  if (ext === "txt" || ext === "text" || mimeType.startsWith("text/"))
+    return "text";
+  return null;
+}
+
+/**
+ * Remove Markdown syntax while keeping the readable text and paragraph breaks.
+ */
+export function stripMarkdown(markdown: string): string {
+  return (
+    markdown
+      .replace(/\r\n?/g, "\n")
+      // front matter
+      .replace(/^---\n[\s\S]*?\n---\n/, "")
+      // fenced and indented code blocks
+      .replace(/```[\s\S]*?```|~~~[\s\S]*?~~~/g, "")
+      .replace(/^(?: {4}|\t).*$/gm, "")
+      // HTML comments and tags
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/<[^>]+>/g, "")
+      // images, then links (keep the link text)
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]+)\]\[[^\]]*\]/g, "$1")
+      .replace(/^[ \t]*\[[^\]]+\]:[ \t]+\S+.*$/gm, "")
+      // headings, blockquotes, list markers, horizontal rules; [ \t] rather
+      // than \s so a marker never swallows the blank line before it
+      .replace(/^[ \t]{0,3}#{1,6}[ \t]+/gm, "")
+      .replace(/^[ \t]{0,3}>[ \t]?/gm, "")
+      .replace(/^[ \t]*(?:[-*+]|\d+[.)])[ \t]+/gm, "")
+      .replace(/^[ \t]*(?:[-*_][ \t]*){3,}$/gm, "")
+      // tables: drop separator rows, turn pipes into spaces
+      .replace(
+        /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/gm,
+        "",
+      )
+      .replace(/\|/g, " ")
+      // emphasis and inline code
+      .replace(/(\*\*|__)(.+?)\1/g, "$2")
+      .replace(/(\*|_)(.+?)\1/g, "$2")
+      .replace(/~~(.+?)~~/g, "$1")
+      .replace(/`([^`]+)`/g, "$1")
+      .replace(/[ \t]+/g, " ")
+      .replace(/^ +| +$/gm, "")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim()
+  );
+}
+
+// Elements that are page chrome rather than content
+const HTML_BOILERPLATE =
+  "script, style, noscript, template, svg, nav, header, footer, aside, form, iframe, button";
+const HTML_BLOCKS = new Set([
+  "P",
+  "DIV",
+  "SECTION",
+  "ARTICLE",
+  "LI",
+  "H1",
+  "H2",
+  "H3",
+  "H4",
+  "H5",
+  "H6",
+  "BLOCKQUOTE",
+  "PRE",
+  "TR",
+  "TABLE",
+  "UL",
+  "OL",
+  "DL",
+  "DT",
+  "DD",
+  "FIGCAPTION",
+  "BR",
+  "HR",
+]);
+
+/**
+ * Extract the readable text of an HTML document, preferring its <main> or
+ * <article> content and keeping block elements as paragraphs.
+ */
+export function htmlToText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  doc.querySelectorAll(HTML_BOILERPLATE).forEach((el) => el.remove());
+  const root = doc.querySelector('main, article, [role="main"]') ?? doc.body;
+  if (!root) return "";
+
+  const parts: string[] = [];
+  (function walk(node: Node) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      parts.push(node.textContent ?? "");
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const block = HTML_BLOCKS.has((node as Element).tagName);
+    if (block) parts.push("\n\n");
+    node.childNodes.forEach(walk);
+    if (block) parts.push("\n\n");
+  })(root);
+
+  return parts
+    .join("")
+    .replace(/[ \t\u00a0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Extract text from a PDF, one paragraph per text block.
+ */
+export async function pdfToText(data: ArrayBuffer): Promise<string> {
+  const pdfjs = await import("pdfjs-dist");
+  const workerUrl = (await import("pdfjs-dist/build/pdf.worker.min.mjs?url"))
+    .default;
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  const pages: string[] = [];
+  try {
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const content = await page.getTextContent();
+      let pageText = "";
+      for (const item of content.items) {
+        if (!("str" in item)) continue;
+        pageText += item.str;
+        if (item.hasEOL) pageText += "\n";
+        else if (item.str && !item.str.endsWith(" ")) pageText += " ";
+      }
+      // Lines ending in sentence punctuation close a paragraph; join the rest
+      pages.push(
+        pageText
+          .replace(/-\n(?=[a-z])/g, "")
+          .replace(/([.!?:])\s*\n/g, "$1\n\n")
+          .replace(/([^\n])\n(?!\n)/g, "$1 ")
+          .replace(/[ \t]+/g, " ")
+          .trim(),
+      );
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages.filter((p) => p.length > 0).join("\n\n");
+}
+
+export async function readImportedFile(file: File): Promise<ImportedFile> {
+  const kind = detectSourceKind(file.name, file.type);
+  if (!kind) throw new Error(`${file.name}: unsupported file type`);
+
+  let text: string;
+  if (kind === "pdf") text = await pdfToText(await file.arrayBuffer());
+  else if (kind === "html") text = htmlToText(await file.text());
+  else if (kind === "markdown") text = stripMarkdown(await file.text());
+  else text = (await file.text()).replace(/\r\n?/g, "\n").trim();
+
+  return { name: file.name, kind, text, wordCount: countWords(text) };
+}
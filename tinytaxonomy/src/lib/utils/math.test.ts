@@ -0,0 +1,275 @@
+import { describe, expect, it } from "vitest";
+import {
+  DISTANCE_METRIC_DEFINITIONS,
+  WEIGHTING_SCHEMES,
+  buildTfIdfVectors,
+  createDistanceMatrix,
+  distanceMatrix,
+  documentFrequencies,
+  fromDenseMatrix,
+  getDistance,
+  packedIndex,
+  ppmiVectors,
+  setDistance,
+  toDenseMatrix,
+  vectorDistance,
+  type SparseVector,
+} from "./math";
+import {
+  DISTANCE_METRICS,
+  TERM_WEIGHTINGS,
+  type DistanceMetric,
+} from "../types";
+
+const DOCS = [
+  ["cat", "purr", "cat"],
+  ["dog", "bark"],
+  ["cat", "dog"],
+  ["fish"],
+];
+const VOCAB = ["bark", "cat", "dog", "fish", "purr"];
+
+function dense(vector: SparseVector, length = VOCAB.length): number[] {
+  const out = new Array<number>(length).fill(0);
+  vector.indices.forEach((index, k) => (out[index] = vector.values[k]));
+  return out;
+}
+
+function cosineDistance(a: number[], b: number[]): number {
+  const dot = a.reduce((sum, x, i) => sum + x * b[i], 0);
+  const norm = (v: number[]) => Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+  return norm(a) && norm(b) ? Math.max(0, 1 - dot / (norm(a) * norm(b))) : 1;
+}
+
+describe("buildTfIdfVectors", () => {
+  it("weights term share by log10 idf, sparsely", () => {
+    const df = documentFrequencies(DOCS);
+    expect(df.get("cat")).toBe(2);
+    const [first] = buildTfIdfVectors(DOCS, VOCAB);
+    expect([...first.indices]).toEqual([1, 4]);
+    expect(first.values[0]).toBeCloseTo((2 / 3) * Math.log10(4 / 3));
+    expect(first.values[1]).toBeCloseTo((1 / 3) * Math.log10(4 / 2));
+  });
+
+  it("normalises to unit length and applies token weights", () => {
+    const vectors = buildTfIdfVectors(DOCS, VOCAB, {
+      normalizeVector: true,
+      tokenWeights: new Map([["purr", 2]]),
+    });
+    for (const v of vectors) {
+      if (v.values.length) expect(Math.hypot(...v.values)).toBeCloseTo(1);
+    }
+    const plain = buildTfIdfVectors(DOCS, VOCAB)[0];
+    const weighted = buildTfIdfVectors(DOCS, VOCAB, {
+      tokenWeights: new Map([["purr", 2]]),
+    })[0];
+    expect(weighted.values[1]).toBeCloseTo(plain.values[1] * 2);
+  });
+});
+
+// Textbook definitions over dense vectors, for the registry to agree with
+const REFERENCE_DISTANCES: Record<
+  DistanceMetric,
+  (a: number[], b: number[]) => number
+> = {
+  cosine: cosineDistance,
+  jaccard: (a, b) => {
+    const min = a.reduce((sum, x, i) => sum + Math.min(x, b[i]), 0);
+    const max = a.reduce((sum, x, i) => sum + Math.max(x, b[i]), 0);
+    return max ? 1 - min / max : 1;
+  },
+  euclidean: (a, b) => {
+    const unit = (v: number[]) => v.map((x) => x / Math.hypot(...v));
+    const [ua, ub] = [unit(a), unit(b)];
+    return Math.hypot(...ua.map((x, i) => x - ub[i]));
+  },
+  "jensen-shannon": (a, b) => {
+    const p = a.map((x) => x / a.reduce((s, y) => s + y, 0));
+    const q = b.map((x) => x / b.reduce((s, y) => s + y, 0));
+    const kl = (x: number[], m: number[]) =>
+      x.reduce(
+        (sum, xi, i) => (xi > 0 ? sum + xi * Math.log2(xi / m[i]) : sum),
+        0,
+      );
+    const m = p.map((pi, i) => (pi + q[i]) / 2);
+    return (kl(p, m) + kl(q, m)) / 2;
+  },
+};
+
+describe("weighting schemes", () => {
+  it("registers every weighting with a label", () => {
+    expect(Object.keys(WEIGHTING_SCHEMES).sort()).toEqual(
+      [...TERM_WEIGHTINGS].sort(),
+    );
+    for (const w of TERM_WEIGHTINGS)
+      expect(WEIGHTING_SCHEMES[w].label).toBeTruthy();
+  });
+
+  it("computes each scheme as documented", () => {
+    const weight = (weighting: (typeof TERM_WEIGHTINGS)[number]) =>
+      buildTfIdfVectors(DOCS, VOCAB, { weighting })[0].values[0];
+    const idf = Math.log10(4 / 3);
+    expect(weight("raw")).toBeCloseTo(2 * idf);
+    expect(weight("sublinear")).toBeCloseTo((1 + Math.log(2)) * idf);
+    expect(weight("binary")).toBe(1);
+    // BM25: tf 2 in a document of 3 tokens, mean length 2, df 2 of 4
+    const tf = (2 * 2.2) / (2 + 1.2 * (0.25 + (0.75 * 3) / 2));
+    expect(weight("bm25")).toBeCloseTo(tf * Math.log(1 + 2.5 / 2.5));
+  });
+});
+
+describe("distance metrics", () => {
+  const vectors = buildTfIdfVectors(DOCS, VOCAB, { weighting: "raw" });
+
+  it.each(DISTANCE_METRICS)(
+    "%s agrees with its textbook definition",
+    (metric) => {
+      const matrix = distanceMatrix(vectors, metric);
+      for (let i = 0; i < vectors.length; i++) {
+        for (let j = i + 1; j < vectors.length; j++) {
+          const expected = REFERENCE_DISTANCES[metric](
+            dense(vectors[i]),
+            dense(vectors[j]),
+          );
+          expect(getDistance(matrix, i, j)).toBeCloseTo(expected, 10);
+          expect(vectorDistance(vectors[i], vectors[j], metric)).toBeCloseTo(
+            expected,
+            10,
+          );
+        }
+      }
+    },
+  );
+
+  it("gives disjoint pairs the largest distance of each metric", () => {
+    for (const metric of DISTANCE_METRICS) {
+      expect(vectorDistance(vectors[0], vectors[3], metric)).toBe(
+        DISTANCE_METRIC_DEFINITIONS[metric].disjoint,
+      );
+    }
+    expect(DISTANCE_METRIC_DEFINITIONS.euclidean.disjoint).toBe(Math.SQRT2);
+  });
+});
+
+describe("packed distance matrix", () => {
+  it("stores the upper triangle row by row", () => {
+    const matrix = createDistanceMatrix(4);
+    expect(matrix.data).toHaveLength(6);
+    expect([
+      packedIndex(4, 0, 1),
+      packedIndex(4, 0, 3),
+      packedIndex(4, 1, 2),
+      packedIndex(4, 3, 2),
+    ]).toEqual([0, 2, 3, 5]);
+    setDistance(matrix, 2, 1, 0.5);
+    setDistance(matrix, 3, 3, 9);
+    expect(getDistance(matrix, 1, 2)).toBe(0.5);
+    expect(getDistance(matrix, 3, 3)).toBe(0);
+  });
+
+  it("converts to and from dense rows", () => {
+    const rows = [
+      [0, 1, 2],
+      [1, 0, 3],
+      [2, 3, 0],
+    ];
+    expect([...fromDenseMatrix(rows).data]).toEqual([1, 2, 3]);
+    expect(toDenseMatrix(fromDenseMatrix(rows))).toEqual(rows);
+  });
+});
+
+describe("distanceMatrix", () => {
+  it("matches pairwise cosine distances of the dense vectors", () => {
+    const vectors = buildTfIdfVectors(DOCS, VOCAB);
+    const matrix = distanceMatrix(vectors);
+    for (let i = 0; i < vectors.length; i++) {
+      for (let j = 0; j < vectors.length; j++) {
+        const expected =
+          i === j ? 0 : cosineDistance(dense(vectors[i]), dense(vectors[j]));
+        expect(getDistance(matrix, i, j)).toBeCloseTo(expected, 12);
+        if (i !== j)
+          expect(vectorDistance(vectors[i], vectors[j])).toBeCloseTo(
+            expected,
+            12,
+          );
+      }
+    }
+  });
+
+  it("gives pairs without shared terms, or with an empty vector, distance 1", () => {
+    const empty: SparseVector = {
+      indices: new Uint32Array(),
+      values: new Float64Array(),
+    };
+    const vectors = [...buildTfIdfVectors(DOCS, VOCAB), empty];
+    const matrix = distanceMatrix(vectors);
+    expect(getDistance(matrix, 0, 3)).toBe(1);
+    expect(getDistance(matrix, 4, 0)).toBe(1);
+    expect(vectorDistance(empty, empty)).toBe(1);
+  });
+
+  it("reports progress up to the whole matrix", () => {
+    const fractions: number[] = [];
+    distanceMatrix(buildTfIdfVectors(DOCS, VOCAB), "cosine", (f) =>
+      fractions.push(f),
+    );
+    expect(fractions.at(-1)).toBe(1);
+  });
+});
+
+describe("ppmiVectors", () => {
+  const sparse = (row: number[]): SparseVector => {
+    const indices = row.flatMap((x, i) => (x ? [i] : []));
+    return {
+      indices: Uint32Array.from(indices),
+      values: Float64Array.from(indices.map((i) => row[i])),
+    };
+  };
+  const COUNTS = [
+    [4, 1, 0],
+    [1, 4, 1],
+    [0, 1, 6],
+  ];
+
+  function reference(counts: number[][], alpha: number): number[][] {
+    const total = counts.flat().reduce((a, b) => a + b, 0);
+    const rows = counts.map((row) => row.reduce((a, b) => a + b, 0));
+    const columns = counts[0].map((_, c) =>
+      counts.reduce((sum, row) => sum + row[c], 0),
+    );
+    const smoothed = columns.reduce((sum, c) => sum + c ** alpha, 0);
+    return counts.map((row, r) =>
+      row.map((x, c) =>
+        x
+          ? Math.max(
+              0,
+              Math.log(
+                x /
+                  total /
+                  ((rows[r] / total) * (columns[c] ** alpha / smoothed)),
+              ),
+            )
+          : 0,
+      ),
+    );
+  }
+
+  it.each([1, 0.75])(
+    "matches max(0, PMI) with context smoothing %s",
+    (alpha) => {
+      const ppmi = ppmiVectors(COUNTS.map(sparse), alpha).map((v) =>
+        dense(v, 3),
+      );
+      reference(COUNTS, alpha).forEach((row, r) =>
+        row.forEach((x, c) => expect(ppmi[r][c]).toBeCloseTo(x, 12)),
+      );
+    },
+  );
+
+  it("drops the entries that are not positive", () => {
+    const ppmi = ppmiVectors(COUNTS.map(sparse), 1);
+    // Each row keeps its own dominant context only
+    expect(ppmi.map((v) => [...v.indices])).toEqual([[0], [1], [2]]);
+    expect(ppmi.every((v) => v.values.every((x) => x > 0))).toBe(true);
+  });
+});
@@ -1,72 +1,497 @@
+import type { DistanceMetric, TermWeighting } from '../types';
+
 export interface TfIdfOptions {
     tokenWeights?: Map<string, number>;  // Custom weights per term
     normalizeVector?: boolean;           // L2 normalize the result
+    documentCount?: number;              // Corpus size behind `df` (default: docs.length)
+    weighting?: TermWeighting;           // Term weighting scheme (default: tfidf)
+    averageLength?: number;              // Mean document length for BM25 (default: mean of docs)
+}
+
+/**
+ * Sparse vector: non-zero entries only, `indices` ascending.
+ */
+export interface SparseVector {
+    indices: Uint32Array;
+    values: Float64Array;
+}
+
+/**
+ * Symmetric distance matrix with a zero diagonal, stored as its packed upper
+ * triangle (row-major, diagonal omitted): n(n-1)/2 doubles instead of n².
+ */
+export interface DistanceMatrix {
+    size: number;
+    data: Float64Array;
+}
+
+/**
+ * Small seeded PRNG (mulberry32) returning floats in [0, 1), so randomised
+ * steps give the same tree on every run.
+ */
+export function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Number of documents each term occurs in, counted once per document.
+ */
+export function documentFrequencies(docs: string[][]): Map<string, number> {
+    const df = new Map<string, number>();
+    for (const doc of docs) {
+        for (const term of new Set(doc)) {
+            df.set(term, (df.get(term) ?? 0) + 1);
+        }
+    }
+    return df;
 }
 
-export function calculateTfIdfVector(
-    tokens: string[], 
-    allDocs: string[][], 
+export interface WeightingScheme {
+    label: string;
+    // Weight of a term seen `count` times in a document of `length` tokens
+    tf: (count: number, length: number, averageLength: number) => number;
+    // Weight of a term found in `df` of `N` documents
+    idf: (df: number, N: number) => number;
+}
+
+// BM25 term-frequency saturation and length normalisation (the usual defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const log10Idf = (df: number, N: number) => Math.log10(N / (1 + df));
+
+/**
+ * Term weighting schemes. Custom token weights multiply every scheme.
+ */
+export const WEIGHTING_SCHEMES: Record<TermWeighting, WeightingScheme> = {
+    tfidf: {
+        label: 'TF-IDF — term share × log idf (default)',
+        tf: (count, length) => count / length,
+        idf: log10Idf
+    },
+    raw: {
+        label: 'Raw tf — term counts × idf',
+        tf: (count) => count,
+        idf: log10Idf
+    },
+    sublinear: {
+        label: 'Sublinear tf — (1 + ln count) × idf',
+        tf: (count) => 1 + Math.log(count),
+        idf: log10Idf
+    },
+    bm25: {
+        label: 'BM25 — saturating tf, length-normalised',
+        tf: (count, length, averageLength) =>
+            (count * (BM25_K1 + 1)) / (count + BM25_K1 * (1 - BM25_B + (BM25_B * length) / (averageLength || 1))),
+        idf: (df, N) => Math.log(1 + (N - df + 0.5) / (df + 0.5))
+    },
+    binary: {
+        label: 'Binary — term present or not, no idf',
+        tf: () => 1,
+        idf: () => 1
+    }
+};
+
+/**
+ * Weighted term vectors for every document over `vocab`, as sparse vectors.
+ *
+ * The scheme comes from `options.weighting` (see `WEIGHTING_SCHEMES`); the
+ * default is tf = count / document length, idf = log10(N / (1 + df)).
+ * Document frequencies are computed once for the whole corpus.
+ */
+export function buildTfIdfVectors(
+    docs: string[][],
     vocab: string[],
-    options: TfIdfOptions = {}
-): number[] {
-    const { tokenWeights, normalizeVector = false } = options;
-    const N = allDocs.length;
-    if (tokens.length === 0) return vocab.map(() => 0);
-
-    const vector = vocab.map((term) => {
-        const tf = tokens.filter((t) => t === term).length / tokens.length;
-        if (tf === 0) return 0;
-
-        const docsWithTerm = allDocs.filter((d) => d.includes(term)).length;
-        const idf = Math.log10(N / (1 + docsWithTerm));
-
-        // Apply custom weight if provided
-        const weight = tokenWeights?.get(term) ?? 1.0;
-        
-        return tf * idf * weight;
+    options: TfIdfOptions = {},
+    df: Map<string, number> = documentFrequencies(docs)
+): SparseVector[] {
+    const { tokenWeights, normalizeVector = false, documentCount = docs.length, weighting = 'tfidf' } = options;
+    const N = documentCount;
+    const scheme = WEIGHTING_SCHEMES[weighting];
+    const averageLength = options.averageLength ?? docs.reduce((sum, doc) => sum + doc.length, 0) / (docs.length || 1);
+    const termIndex = new Map<string, number>();
+    vocab.forEach((term, i) => termIndex.set(term, i));
+
+    // Per-term factor shared by every document: idf × custom weight
+    const termFactor = vocab.map((term) => scheme.idf(df.get(term) ?? 0, N) * (tokenWeights?.get(term) ?? 1.0));
+
+    return docs.map((tokens) => {
+        const counts = new Map<number, number>();
+        for (const token of tokens) {
+            const i = termIndex.get(token);
+            if (i !== undefined) counts.set(i, (counts.get(i) ?? 0) + 1);
+        }
+
+        const indices = Uint32Array.from(counts.keys()).sort();
+        const values = new Float64Array(indices.length);
+        for (let k = 0; k < indices.length; k++) {
+            values[k] = scheme.tf(counts.get(indices[k])!, tokens.length, averageLength) * termFactor[indices[k]];
+        }
+
+        // L2 normalization to reduce paragraph length effects
+        if (normalizeVector) {
+            const magnitude = Math.sqrt(values.reduce((sum, v) => sum + v * v, 0));
+            if (magnitude > 0) {
+                for (let k = 0; k < values.length; k++) values[k] /= magnitude;
+            }
+        }
+        return { indices, values };
     });
-    
-    // L2 normalization to reduce paragraph length effects
-    if (normalizeVector) {
-        const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
-        if (magnitude > 0) {
-            for (let i = 0; i < vector.length; i++) {
-                vector[i] /= magnitude;
+}
+
+/**
+ * Positive pointwise mutual information of a row × context count matrix:
+ * max(0, log(P(w, c) / (P(w) · Pα(c)))). The context distribution is
+ * smoothed with exponent α (0.75 per Levy, Goldberg & Dagan 2015), which
+ * keeps rare contexts from getting inflated scores. Zero scores are dropped.
+ */
+export function ppmiVectors(counts: SparseVector[], smoothing = 0.75): SparseVector[] {
+    let total = 0;
+    const rowTotals = counts.map(({ values }) => values.reduce((sum, v) => sum + v, 0));
+    const contextTotals = new Map<number, number>();
+    for (const { indices, values } of counts) {
+        for (let e = 0; e < indices.length; e++) {
+            contextTotals.set(indices[e], (contextTotals.get(indices[e]) ?? 0) + values[e]);
+            total += values[e];
+        }
+    }
+    let smoothedTotal = 0;
+    for (const count of contextTotals.values()) smoothedTotal += count ** smoothing;
+
+    return counts.map(({ indices, values }, row) => {
+        const kept: number[] = [];
+        const scores: number[] = [];
+        for (let e = 0; e < indices.length; e++) {
+            const pmi = Math.log(
+                (values[e] / total) / ((rowTotals[row] / total) * (contextTotals.get(indices[e])! ** smoothing / smoothedTotal))
+            );
+            if (pmi > 0) {
+                kept.push(indices[e]);
+                scores.push(pmi);
             }
         }
+        return { indices: Uint32Array.from(kept), values: Float64Array.from(scores) };
+    });
+}
+
+/**
+ * Sparse vectors flattened into three typed arrays (CSR layout), cheap to
+ * post to a worker: vector i owns entries [offsets[i], offsets[i + 1]).
+ */
+export interface PackedSparseVectors {
+    offsets: Uint32Array;
+    indices: Uint32Array;
+    values: Float64Array;
+}
+
+export function packSparseVectors(vectors: SparseVector[]): PackedSparseVectors {
+    const offsets = new Uint32Array(vectors.length + 1);
+    vectors.forEach((v, i) => (offsets[i + 1] = offsets[i] + v.indices.length));
+    const indices = new Uint32Array(offsets[vectors.length]);
+    const values = new Float64Array(offsets[vectors.length]);
+    vectors.forEach((v, i) => {
+        indices.set(v.indices, offsets[i]);
+        values.set(v.values, offsets[i]);
+    });
+    return { offsets, indices, values };
+}
+
+export function unpackSparseVectors({ offsets, indices, values }: PackedSparseVectors): SparseVector[] {
+    return Array.from({ length: offsets.length - 1 }, (_, i) => ({
+        indices: indices.subarray(offsets[i], offsets[i + 1]),
+        values: values.subarray(offsets[i], offsets[i + 1])
+    }));
+}
+
+export function createDistanceMatrix(size: number): DistanceMatrix {
+    return { size, data: new Float64Array((size * (size - 1)) / 2) };
+}
+
+/**
+ * Offset of (i, j), i ≠ j, in the packed upper triangle.
+ */
+export function packedIndex(size: number, i: number, j: number): number {
+    if (i > j) [i, j] = [j, i];
+    return i * size - (i * (i + 1)) / 2 + (j - i - 1);
+}
+
+export function getDistance(matrix: DistanceMatrix, i: number, j: number): number {
+    return i === j ? 0 : matrix.data[packedIndex(matrix.size, i, j)];
+}
+
+export function setDistance(matrix: DistanceMatrix, i: number, j: number, value: number): void {
+    if (i !== j) matrix.data[packedIndex(matrix.size, i, j)] = value;
+}
+
+export function toDenseMatrix(matrix: DistanceMatrix): number[][] {
+    const rows = Array.from({ length: matrix.size }, () => new Array<number>(matrix.size).fill(0));
+    let k = 0;
+    for (let i = 0; i < matrix.size; i++) {
+        for (let j = i + 1; j < matrix.size; j++) {
+            rows[i][j] = rows[j][i] = matrix.data[k++];
+        }
     }
-    
-    return vector;
+    return rows;
 }
 
-export function calculateDistanceMatrix(vectors: number[][]): number[][] {
-    const n = vectors.length;
-    const matrix = Array(n).fill(0).map(() => Array(n).fill(0));
-
-    for (let i = 0; i < n; i++) {
-        for (let j = i; j < n; j++) {
-            if (i === j) {
-                matrix[i][j] = 0;
-            } else {
-                const sim = cosineSimilarity(vectors[i], vectors[j]);
-                const dist = Math.max(0, 1 - sim);
-                matrix[i][j] = dist;
-                matrix[j][i] = dist;
-            }
+export function fromDenseMatrix(rows: number[][]): DistanceMatrix {
+    const matrix = createDistanceMatrix(rows.length);
+    let k = 0;
+    for (let i = 0; i < rows.length; i++) {
+        for (let j = i + 1; j < rows.length; j++) {
+            matrix.data[k++] = rows[i][j];
         }
     }
     return matrix;
 }
 
-export function cosineSimilarity(a: number[], b: number[]): number {
-    let dot = 0;
-    let magA = 0;
-    let magB = 0;
-    for (let i = 0; i < a.length; i++) {
-        dot += a[i] * b[i];
-        magA += a[i] * a[i];
-        magB += b[i] * b[i];
+/**
+ * Offset of row `row`'s first entry, (row, row + 1), in the packed upper
+ * triangle. Rows are contiguous, so rows [a, b) occupy offsets
+ * [packedRowOffset(a), packedRowOffset(b)).
+ */
+export function packedRowOffset(size: number, row: number): number {
+    return row * size - (row * (row + 1)) / 2;
+}
+
+/**
+ * Split rows [0, size) into `count` contiguous blocks holding roughly the
+ * same number of pairs (early rows are longer than late ones).
+ */
+export function balancedRowBlocks(size: number, count: number): [number, number][] {
+    const total = packedRowOffset(size, size);
+    const blocks: [number, number][] = [];
+    let start = 0;
+    for (let b = 1; b <= count && start < size; b++) {
+        // Smallest end whose rows [0, end) reach this block's share of the pairs
+        const target = (total * b) / count;
+        let end = start + 1;
+        while (end < size && (b === count || packedRowOffset(size, end) < target)) end++;
+        blocks.push([start, end]);
+        start = end;
+    }
+    return blocks;
+}
+
+function lowerBound(sorted: number[], value: number): number {
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (sorted[mid] < value) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+}
+
+export interface DistanceMetricDefinition {
+    label: string;
+    // Distance between vectors that share no dimension, or involve an all-zero vector
+    disjoint: number;
+    // Per-vector statistic the pair terms need (norm, weight sum); 0 marks an all-zero vector
+    summarize: (values: Float64Array) => number;
+    // Contribution of one shared dimension holding `a` and `b`
+    term: (a: number, b: number, sa: number, sb: number) => number;
+    // Distance from the summed terms of the shared dimensions
+    distance: (sum: number, sa: number, sb: number) => number;
+}
+
+function l2Norm(values: Float64Array): number {
+    let sq = 0;
+    for (let k = 0; k < values.length; k++) sq += values[k] * values[k];
+    return Math.sqrt(sq);
+}
+
+// Jaccard and Jensen–Shannon need non-negative weights; negative ones count as 0
+function positiveSum(values: Float64Array): number {
+    let sum = 0;
+    for (let k = 0; k < values.length; k++) if (values[k] > 0) sum += values[k];
+    return sum;
+}
+
+/**
+ * Distance metrics over sparse vectors. Every metric is expressed through
+ * the dimensions a pair shares (see `DistanceMetricDefinition`), so they all
+ * use the same inverted-index loop in `distanceRows`.
+ */
+export const DISTANCE_METRIC_DEFINITIONS: Record<DistanceMetric, DistanceMetricDefinition> = {
+    cosine: {
+        label: 'Cosine — angle between vectors (default)',
+        disjoint: 1,
+        summarize: l2Norm,
+        term: (a, b) => a * b,
+        distance: (dot, na, nb) => Math.max(0, 1 - dot / (na * nb))
+    },
+    jaccard: {
+        label: 'Jaccard — weighted overlap (Σmin / Σmax)',
+        disjoint: 1,
+        summarize: positiveSum,
+        term: (a, b) => Math.max(0, Math.min(a, b)),
+        // Σmax = Σa + Σb − Σmin over non-negative weights
+        distance: (min, sa, sb) => Math.max(0, 1 - min / (sa + sb - min))
+    },
+    euclidean: {
+        label: 'Euclidean — straight-line distance of unit vectors (0–√2)',
+        disjoint: Math.SQRT2,
+        summarize: l2Norm,
+        term: (a, b) => a * b,
+        // |â − b̂|² = 2 − 2 cos
+        distance: (dot, na, nb) => Math.sqrt(Math.max(0, 2 - (2 * dot) / (na * nb)))
+    },
+    'jensen-shannon': {
+        label: 'Jensen–Shannon — divergence of term distributions',
+        disjoint: 1,
+        summarize: positiveSum,
+        // Base-2 JSD is 1 for disjoint distributions; each shared dimension
+        // lowers it by ½(p + q) and adds back its own ½ Σ x·log2(2x / (p + q))
+        term: (a, b, sa, sb) => {
+            const p = Math.max(0, a) / sa;
+            const q = Math.max(0, b) / sb;
+            const m = p + q;
+            if (m === 0) return 0;
+            const kl = (x: number) => (x > 0 ? x * Math.log2((2 * x) / m) : 0);
+            return 0.5 * (kl(p) + kl(q) - m);
+        },
+        distance: (sum) => Math.min(1, Math.max(0, 1 + sum))
+    }
+};
+
+/**
+ * Distance between two sparse vectors under `metric`.
+ */
+export function vectorDistance(a: SparseVector, b: SparseVector, metric: DistanceMetric = 'cosine'): number {
+    const definition = DISTANCE_METRIC_DEFINITIONS[metric];
+    const sa = definition.summarize(a.values);
+    const sb = definition.summarize(b.values);
+    if (sa <= 0 || sb <= 0) return definition.disjoint;
+
+    let sum = 0;
+    let shared = false;
+    let i = 0;
+    let j = 0;
+    while (i < a.indices.length && j < b.indices.length) {
+        if (a.indices[i] === b.indices[j]) {
+            sum += definition.term(a.values[i++], b.values[j++], sa, sb);
+            shared = true;
+        } else if (a.indices[i] < b.indices[j]) i++;
+        else j++;
+    }
+    return shared ? definition.distance(sum, sa, sb) : definition.disjoint;
+}
+
+/**
+ * Pairwise distances between sparse vectors under `metric` (default cosine:
+ * 1 − cosine similarity, clamped at 0). Pair terms are accumulated through an
+ * inverted index, so only pairs that share a dimension cost anything; every
+ * other pair (and any pair involving an all-zero vector) gets the metric's
+ * `disjoint` distance.
+ *
+ * `onProgress` receives the fraction of pairs done after each row.
+ */
+export function distanceMatrix(
+    vectors: SparseVector[],
+    metric: DistanceMetric = 'cosine',
+    onProgress?: (fraction: number) => void
+): DistanceMatrix {
+    const matrix = createDistanceMatrix(vectors.length);
+    matrix.data.set(distanceRows(createDistanceIndex(vectors, metric), 0, vectors.length, onProgress));
+    return matrix;
+}
+
+/**
+ * The vectors of one distance matrix with their inverted index (dimension →
+ * rows in ascending order and their values) and per-row metric summaries.
+ * Built once and shared by every block of rows computed from it.
+ */
+export interface DistanceIndex {
+    vectors: SparseVector[];
+    metric: DistanceMetric;
+    postingRows: Map<number, number[]>;
+    postingValues: Map<number, number[]>;
+    stats: Float64Array;
+}
+
+export function createDistanceIndex(vectors: SparseVector[], metric: DistanceMetric = 'cosine'): DistanceIndex {
+    const { summarize } = DISTANCE_METRIC_DEFINITIONS[metric];
+    const postingRows = new Map<number, number[]>();
+    const postingValues = new Map<number, number[]>();
+    const stats = new Float64Array(vectors.length);
+    vectors.forEach((v, row) => {
+        for (let k = 0; k < v.indices.length; k++) {
+            const dim = v.indices[k];
+            if (!postingRows.has(dim)) {
+                postingRows.set(dim, []);
+                postingValues.set(dim, []);
+            }
+            postingRows.get(dim)!.push(row);
+            postingValues.get(dim)!.push(v.values[k]);
+        }
+        stats[row] = summarize(v.values);
+    });
+    return { vectors, metric, postingRows, postingValues, stats };
+}
+
+/**
+ * The packed rows [rowStart, rowEnd) of `distanceMatrix(index.vectors,
+ * index.metric)`, so the matrix can be computed in blocks (e.g. by several
+ * workers) and stitched together at `packedRowOffset(n, rowStart)`.
+ */
+export function distanceRows(
+    index: DistanceIndex,
+    rowStart: number,
+    rowEnd: number,
+    onProgress?: (fraction: number) => void
+): Float64Array {
+    const { vectors, postingRows, postingValues, stats } = index;
+    const { disjoint, term, distance } = DISTANCE_METRIC_DEFINITIONS[index.metric];
+    const n = vectors.length;
+    const base = packedRowOffset(n, rowStart);
+    const out = new Float64Array(packedRowOffset(n, rowEnd) - base).fill(disjoint);
+
+    // Rows are visited in order, so each posting cursor (position of the
+    // current row + 1) only moves forward once found
+    const cursor = new Map<number, number>();
+    const sums = new Float64Array(n);
+    const seen = new Uint8Array(n);
+    const touched: number[] = [];
+    const blockPairs = out.length || 1;
+    for (let i = rowStart; i < rowEnd; i++) {
+        const { indices, values } = vectors[i];
+        const si = stats[i];
+        for (let k = 0; k < indices.length; k++) {
+            const dim = indices[k];
+            const rows = postingRows.get(dim)!;
+            const vals = postingValues.get(dim)!;
+            const previous = cursor.get(dim);
+            const start = previous === undefined ? lowerBound(rows, i) + 1 : previous + 1;
+            cursor.set(dim, start);
+            for (let p = start; p < rows.length; p++) {
+                const j = rows[p];
+                if (!seen[j]) {
+                    seen[j] = 1;
+                    touched.push(j);
+                }
+                sums[j] += term(values[k], vals[p], si, stats[j]);
+            }
+        }
+
+        const offset = packedRowOffset(n, i) - base - i - 1;
+        for (const j of touched) {
+            if (si > 0 && stats[j] > 0) {
+                out[offset + j] = distance(sums[j], si, stats[j]);
+            }
+            sums[j] = 0;
+            seen[j] = 0;
+        }
+        touched.length = 0;
+        onProgress?.((packedRowOffset(n, i + 1) - base) / blockPairs);
     }
-    if (magA === 0 || magB === 0) return 0;
-    return dot / (Math.sqrt(magA) * Math.sqrt(magB));
+    return out;
 }
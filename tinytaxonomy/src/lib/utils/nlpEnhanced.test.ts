@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { tokenizeWithLemmas } from "./nlpEnhanced";
+
+const TEXT = "The cats were chasing mice in the gardens.";
+
+describe("tokenizeWithLemmas", () => {
+  it("reads surface forms by default, as sentence and paragraph vectors always have", () => {
+    const tokens = tokenizeWithLemmas(TEXT);
+    expect(tokens.map((t) => t.lemma)).toEqual([
+      "the",
+      "cats",
+      "were",
+      "chasing",
+      "mice",
+      "in",
+      "the",
+      "gardens.",
+    ]);
+    expect(new Set(tokens.map((t) => t.pos))).toEqual(new Set(["OTHER"]));
+  });
+
+  it("lemmatises and tags in context for word-mode leaves", () => {
+    const tokens = tokenizeWithLemmas(TEXT, true);
+    expect(tokens.map((t) => t.lemma)).toEqual([
+      "the",
+      "cat",
+      "is",
+      "chase",
+      "mouse",
+      "in",
+      "the",
+      "garden",
+    ]);
+    expect(tokens.filter((t) => t.pos === "NOUN").map((t) => t.text)).toEqual([
+      "cats",
+      "mice",
+      "gardens",
+    ]);
+  });
+});
@@ -12,6 +12,8 @@
 
 // @ts-ignore - compromise doesn't have perfect types
 import nlpCompromise from 'compromise';
+import { documentFrequencies } from './math';
+import type { TermWeighting } from '../types';
 
 // ============================================================================
 // TYPES
@@ -43,6 +45,7 @@ export interface ProcessedDocument {
 export interface EnhancedPipelineOptions {
     // Lemmatization
     enableLemmatization?: boolean;
+    lemmasInContext?: boolean;  // Tag whole texts for lemmas (see tokenizeWithLemmas)
     
     // N-gram detection
     enableNgrams?: boolean;
@@ -52,6 +55,7 @@ export interface EnhancedPipelineOptions {
     // Weighting
     nounPhraseBoost?: number;   // Multiplier for noun phrases (default: 1.3)
     glueWordPenalty?: number;   // Penalty for glue words (default: 0.5)
+    weighting?: TermWeighting;  // Term weighting scheme (default: tfidf)
     
     // Vector normalization
     normalizeVectors?: boolean;
@@ -94,15 +98,45 @@ export function lemmatize(word: string): string {
     return word.toLowerCase();
 }
 
+// Infinitive / singular per (POS, surface form): re-parsing every occurrence
+// with compromise dominates tokenisation time on long inputs
+const baseFormCache = new Map<string, string>();
+
+function termBaseForm(text: string, pos: 'VERB' | 'NOUN'): string {
+    const key = `${pos}:${text}`;
+    let base = baseFormCache.get(key);
+    if (base === undefined) {
+        const termDoc = nlpCompromise(text);
+        base = (pos === 'VERB'
+            ? termDoc.verbs().toInfinitive().text()
+            : termDoc.nouns().toSingular().text()).toLowerCase();
+        baseFormCache.set(key, base);
+    }
+    return base;
+}
+
 /**
- * Process text and extract tokens with lemmas and POS tags
+ * Process text and extract tokens with lemmas and POS tags.
+ *
+ * By default terms are read through `terms().json()`, which wraps each one in
+ * a match object without its tags: tokens come out as lower-cased surface
+ * text (punctuation attached) tagged OTHER. Sentence and paragraph vectors
+ * have always been built from these, so they stay as they are. `inContext`
+ * tags the whole text and takes compromise's infinitives and singulars
+ * (`cats` → `cat`, `mice` → `mouse`), which word-mode leaves need.
  */
-export function tokenizeWithLemmas(text: string): EnhancedToken[] {
+export function tokenizeWithLemmas(text: string, inContext = false): EnhancedToken[] {
     const doc = nlpCompromise(text);
     const tokens: EnhancedToken[] = [];
     
-    // Get all terms with their tags
-    const terms = doc.terms().json();
+    let terms: any[];
+    if (inContext) {
+        doc.compute('root');
+        terms = doc.json().flatMap((sentence: any) => sentence.terms);
+    } else {
+        // Get all terms with their tags
+        terms = doc.terms().json();
+    }
     
     for (const term of terms) {
         if (!term.text || term.text.trim().length < 2) continue;
@@ -132,13 +166,11 @@ export function tokenizeWithLemmas(text: string): EnhancedToken[] {
         }
         
         // Use compromise's built-in lemmatization
-        const termDoc = nlpCompromise(text);
-        if (pos === 'VERB') {
-            const inf = termDoc.verbs().toInfinitive().text();
-            if (inf) lemma = inf.toLowerCase();
-        } else if (pos === 'NOUN') {
-            const sing = termDoc.nouns().toSingular().text();
-            if (sing) lemma = sing.toLowerCase();
+        if (inContext) {
+            if ((pos === 'VERB' || pos === 'NOUN') && term.root) lemma = term.root;
+        } else if (pos === 'VERB' || pos === 'NOUN') {
+            const base = termBaseForm(text, pos);
+            if (base) lemma = base;
         }
         
         // Calculate base weight
@@ -269,27 +301,46 @@ export function detectNgrams(
     return ngrams;
 }
 
+// Ngrams bucketed by first token, longest first; built once per ngram list
+const ngramIndexCache = new WeakMap<NGram[], Map<string, NGram[]>>();
+
+function indexNgrams(ngrams: NGram[]): Map<string, NGram[]> {
+    let index = ngramIndexCache.get(ngrams);
+    if (!index) {
+        index = new Map();
+        // Sort ngrams by length descending (prefer longer matches)
+        const sortedNgrams = [...ngrams].sort((a, b) => b.tokens.length - a.tokens.length);
+        for (const ngram of sortedNgrams) {
+            const bucket = index.get(ngram.tokens[0]) ?? [];
+            bucket.push(ngram);
+            index.set(ngram.tokens[0], bucket);
+        }
+        ngramIndexCache.set(ngrams, index);
+    }
+    return index;
+}
+
 /**
- * Replace token sequences with ngrams in document
+ * Greedy longest-match of ngrams over a lemma sequence: the token ranges
+ * [start, end) that become one vocabulary entry each, in order
  */
-export function applyNgramsToDocument(
+export function ngramSpans(
     lemmas: string[],
     ngrams: NGram[]
-): string[] {
-    // Sort ngrams by length descending (prefer longer matches)
-    const sortedNgrams = [...ngrams].sort((a, b) => b.tokens.length - a.tokens.length);
+): { term: string; start: number; end: number }[] {
+    const index = indexNgrams(ngrams);
     
-    const result: string[] = [];
+    const spans: { term: string; start: number; end: number }[] = [];
     let i = 0;
     
     while (i < lemmas.length) {
         let matched = false;
         
-        for (const ngram of sortedNgrams) {
+        for (const ngram of index.get(lemmas[i]) ?? []) {
             if (i + ngram.tokens.length <= lemmas.length) {
                 const slice = lemmas.slice(i, i + ngram.tokens.length);
                 if (slice.every((t, idx) => t === ngram.tokens[idx])) {
-                    result.push(ngram.joined);
+                    spans.push({ term: ngram.joined, start: i, end: i + ngram.tokens.length });
                     i += ngram.tokens.length;
                     matched = true;
                     break;
@@ -298,58 +349,22 @@ export function applyNgramsToDocument(
         }
         
         if (!matched) {
-            result.push(lemmas[i]);
+            spans.push({ term: lemmas[i], start: i, end: i + 1 });
             i++;
         }
     }
     
-    return result;
+    return spans;
 }
 
-// ============================================================================
-// ENHANCED TF-IDF WITH WEIGHTING
-// ============================================================================
-
 /**
- * Calculate TF-IDF with enhanced weighting
+ * Replace token sequences with ngrams in document
  */
-export function calculateEnhancedTfIdf(
-    docTokens: string[],
-    allDocs: string[][],
-    vocabulary: string[],
-    tokenWeights: Map<string, number>,
-    options: { normalizeVectors?: boolean } = {}
-): number[] {
-    const N = allDocs.length;
-    if (docTokens.length === 0) return vocabulary.map(() => 0);
-    
-    const vector = vocabulary.map((term) => {
-        // Term frequency
-        const count = docTokens.filter(t => t === term).length;
-        const tf = count / docTokens.length;
-        if (tf === 0) return 0;
-        
-        // Inverse document frequency
-        const docsWithTerm = allDocs.filter(d => d.includes(term)).length;
-        const idf = Math.log10(N / (1 + docsWithTerm));
-        
-        // Apply custom weight if available
-        const weight = tokenWeights.get(term) ?? 1.0;
-        
-        return tf * idf * weight;
-    });
-    
-    // Optionally normalize vector length
-    if (options.normalizeVectors) {
-        const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
-        if (magnitude > 0) {
-            for (let i = 0; i < vector.length; i++) {
-                vector[i] /= magnitude;
-            }
-        }
-    }
-    
-    return vector;
+export function applyNgramsToDocument(
+    lemmas: string[],
+    ngrams: NGram[]
+): string[] {
+    return ngramSpans(lemmas, ngrams).map((span) => span.term);
 }
 
 // ============================================================================
@@ -427,11 +442,13 @@ export function findHeightGaps(
 // ============================================================================
 
 /**
- * Process a collection of text segments through the enhanced NLP pipeline
+ * Process a collection of text segments through the enhanced NLP pipeline.
+ * `onProgress` receives the fraction of documents tokenized so far.
  */
 export function processDocumentsEnhanced(
     texts: string[],
-    options: EnhancedPipelineOptions = {}
+    options: EnhancedPipelineOptions = {},
+    onProgress?: (fraction: number) => void
 ): {
     processedDocs: ProcessedDocument[];
     globalVocabulary: string[];
@@ -453,7 +470,7 @@ export function processDocumentsEnhanced(
     
     // Step 1: Tokenize and lemmatize all documents
     for (const text of texts) {
-        let tokens = tokenizeWithLemmas(text);
+        let tokens = tokenizeWithLemmas(text, options.lemmasInContext);
         
         // Extract noun phrases
         const nounPhrases = extractNounPhrases(text);
@@ -482,6 +499,7 @@ export function processDocumentsEnhanced(
             ngrams: [],
             vocabulary: lemmas
         });
+        onProgress?.(processedDocs.length / texts.length);
     }
     
     // Step 2: Detect significant n-grams
@@ -527,15 +545,16 @@ export function filterVocabularyByDF(
     vocabulary: string[],
     documents: string[][],
     minDF: number = 1,
-    maxDFRatio: number = 0.95
+    maxDFRatio: number = 0.95,
+    df: Map<string, number> = documentFrequencies(documents)
 ): string[] {
     const docCount = documents.length;
     
     return vocabulary.filter(term => {
-        const df = documents.filter(doc => doc.includes(term)).length;
-        const dfRatio = df / docCount;
+        const termDf = df.get(term) ?? 0;
+        const dfRatio = termDf / docCount;
         
-        return df >= minDF && dfRatio <= maxDFRatio;
+        return termDf >= minDF && dfRatio <= maxDFRatio;
     });
 }
 
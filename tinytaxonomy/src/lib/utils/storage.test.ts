@@ -0,0 +1,112 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import {
+  deleteEmbeddings,
+  deleteSession,
+  duplicateSession,
+  listEmbeddings,
+  listSessions,
+  loadEmbeddings,
+  loadSession,
+  renameSession,
+  saveEmbeddings,
+  saveSession,
+  type SessionContent,
+} from "./storage";
+import type { WordEmbeddings } from "./embeddings";
+
+const content: SessionContent = {
+  source: { text: "Cats purr. Dogs bark.", mode: "sentence", options: {} },
+  tree: {
+    name: "root",
+    children: [
+      { name: "Cats purr.", type: "leaf" },
+      { name: "Dogs bark.", type: "leaf" },
+      { name: "Empty", type: "cluster", children: [] },
+    ],
+  },
+  view: { layout: "tree", maxDepth: 3, colorBy: "cluster", collapsed: [] },
+};
+
+describe("sessions", () => {
+  it("save, list, rename, duplicate and delete round-trip", async () => {
+    const saved = await saveSession(null, content, "Pets");
+    expect(saved).toMatchObject({
+      name: "Pets",
+      mode: "sentence",
+      leafCount: 2,
+      editCount: 0,
+    });
+    expect(await listSessions()).toEqual([saved]);
+    expect(await loadSession(saved.id)).toMatchObject({
+      ...content,
+      id: saved.id,
+      name: "Pets",
+    });
+
+    // Saving again under the id keeps the name and creation time
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const resaved = await saveSession(
+      saved.id,
+      { ...content, view: { ...content.view, layout: "radial" } },
+      "Ignored",
+    );
+    expect(resaved).toMatchObject({
+      id: saved.id,
+      name: "Pets",
+      createdAt: saved.createdAt,
+    });
+    expect(resaved.updatedAt > saved.updatedAt).toBe(true);
+    expect((await loadSession(saved.id))?.view.layout).toBe("radial");
+
+    await renameSession(saved.id, "Animals");
+    const copy = await duplicateSession(saved.id);
+    expect(copy.name).toBe("Animals (copy)");
+    expect((await listSessions()).map((s) => s.name).sort()).toEqual([
+      "Animals",
+      "Animals (copy)",
+    ]);
+
+    await deleteSession(saved.id);
+    expect(await loadSession(saved.id)).toBeNull();
+    expect((await listSessions()).map((s) => s.id)).toEqual([copy.id]);
+    await deleteSession(copy.id);
+    expect(await listSessions()).toEqual([]);
+  });
+
+  it("starts a new session when the id is no longer stored", async () => {
+    const saved = await saveSession("gone", content, "Fresh");
+    expect(saved.id).not.toBe("gone");
+    expect(saved.name).toBe("Fresh");
+    await deleteSession(saved.id);
+  });
+
+  it("reports a session that disappeared", async () => {
+    await expect(renameSession("gone", "x")).rejects.toThrow(
+      /no longer stored/,
+    );
+  });
+});
+
+describe("word vectors", () => {
+  it("save, list, load and delete round-trip", async () => {
+    const embeddings: WordEmbeddings = {
+      name: "tiny.vec",
+      dimensions: 2,
+      words: ["cat", "dog"],
+      vectors: Float32Array.from([1, 0, 0, 1]),
+    };
+    const summary = await saveEmbeddings(embeddings);
+    expect(summary).toMatchObject({
+      name: "tiny.vec",
+      dimensions: 2,
+      wordCount: 2,
+    });
+    expect(await listEmbeddings()).toEqual([summary]);
+    expect(await loadEmbeddings("tiny.vec")).toEqual(embeddings);
+
+    await deleteEmbeddings("tiny.vec");
+    expect(await loadEmbeddings("tiny.vec")).toBeNull();
+    expect(await listEmbeddings()).toEqual([]);
+  });
+});
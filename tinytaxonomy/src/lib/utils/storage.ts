@@ -0,0 +1,319 @@
+/**
+ * Browser storage (IndexedDB) for data too large to reload on every visit.
+ *
+ * Word vectors are kept in two stores: the vectors themselves, keyed by
+ * name, and a small summary per set so the sidebar can list them without
+ * reading hundreds of megabytes. Both the page and the cluster worker open
+ * the same database.
+ *
+ * Sessions (version 2) follow the same pattern: the saved inputs, tree and
+ * view of an analysis keyed by id, and a summary per session for the
+ * history sidebar. Nothing leaves the browser.
+ */
+
+import type { TaxonomyNode, TaxonomySource } from "../types";
+import type { CurationLog } from "./curation";
+import type { WordEmbeddings } from "./embeddings";
+
+const DB_NAME = "tinytaxonomy";
+const DB_VERSION = 2;
+const EMBEDDINGS_STORE = "embeddings";
+const EMBEDDING_SUMMARIES_STORE = "embeddingSummaries";
+const SESSIONS_STORE = "sessions";
+const SESSION_SUMMARIES_STORE = "sessionSummaries";
+
+export interface EmbeddingSummary {
+  name: string;
+  dimensions: number;
+  wordCount: number;
+  savedAt: string;
+}
+
+// How the tree was being looked at
+export interface SessionView {
+  layout: "tree" | "radial";
+  maxDepth: number;
+  colorBy: string;
+  // Ids of collapsed clusters
+  collapsed: number[];
+}
+
+// Everything the page needs to put an analysis back on screen
+export interface SessionContent {
+  source: TaxonomySource;
+  // The tree as displayed, hand edits included
+  tree: TaxonomyNode;
+  // Hand edits, replayed on `base` to restore undo
+  curation?: CurationLog;
+  view: SessionView;
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  mode: TaxonomySource["mode"];
+  leafCount: number;
+  editCount: number;
+  // Approximate size of the stored session (its JSON, in bytes)
+  bytes: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StoredSession extends SessionContent {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function storageAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+function promised<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(request.error ?? new Error("IndexedDB request failed"));
+  });
+}
+
+function completed(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () =>
+      reject(transaction.error ?? new Error("IndexedDB transaction failed"));
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+  });
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!storageAvailable())
+    return Promise.reject(new Error("This browser has no IndexedDB storage"));
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(EMBEDDINGS_STORE))
+        db.createObjectStore(EMBEDDINGS_STORE, { keyPath: "name" });
+      if (!db.objectStoreNames.contains(EMBEDDING_SUMMARIES_STORE))
+        db.createObjectStore(EMBEDDING_SUMMARIES_STORE, { keyPath: "name" });
+      if (!db.objectStoreNames.contains(SESSIONS_STORE))
+        db.createObjectStore(SESSIONS_STORE, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(SESSION_SUMMARIES_STORE))
+        db.createObjectStore(SESSION_SUMMARIES_STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version open in another tab
+      db.onversionchange = () => {
+        db.close();
+        database = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () =>
+      reject(request.error ?? new Error("Could not open IndexedDB"));
+    request.onblocked = () =>
+      reject(
+        new Error("IndexedDB is blocked by another tab — close it and retry"),
+      );
+  }).catch((err) => {
+    database = null;
+    throw err;
+  });
+  return database;
+}
+
+export async function saveEmbeddings(
+  embeddings: WordEmbeddings,
+): Promise<EmbeddingSummary> {
+  const db = await openDatabase();
+  const summary: EmbeddingSummary = {
+    name: embeddings.name,
+    dimensions: embeddings.dimensions,
+    wordCount: embeddings.words.length,
+    savedAt: new Date().toISOString(),
+  };
+  const transaction = db.transaction(
+    [EMBEDDINGS_STORE, EMBEDDING_SUMMARIES_STORE],
+    "readwrite",
+  );
+  transaction.objectStore(EMBEDDINGS_STORE).put(embeddings);
+  transaction.objectStore(EMBEDDING_SUMMARIES_STORE).put(summary);
+  await completed(transaction);
+  return summary;
+}
+
+export async function loadEmbeddings(
+  name: string,
+): Promise<WordEmbeddings | null> {
+  const db = await openDatabase();
+  const stored = await promised(
+    db.transaction(EMBEDDINGS_STORE).objectStore(EMBEDDINGS_STORE).get(name),
+  );
+  return (stored as WordEmbeddings | undefined) ?? null;
+}
+
+export async function listEmbeddings(): Promise<EmbeddingSummary[]> {
+  const db = await openDatabase();
+  const summaries = await promised(
+    db
+      .transaction(EMBEDDING_SUMMARIES_STORE)
+      .objectStore(EMBEDDING_SUMMARIES_STORE)
+      .getAll(),
+  );
+  return (summaries as EmbeddingSummary[]).sort((a, b) =>
+    a.name.localeCompare(b.name),
+  );
+}
+
+export async function deleteEmbeddings(name: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [EMBEDDINGS_STORE, EMBEDDING_SUMMARIES_STORE],
+    "readwrite",
+  );
+  transaction.objectStore(EMBEDDINGS_STORE).delete(name);
+  transaction.objectStore(EMBEDDING_SUMMARIES_STORE).delete(name);
+  await completed(transaction);
+}
+
+function countLeaves(node: TaxonomyNode): number {
+  const children = node.children ?? node._children ?? [];
+  return children.length
+    ? children.reduce((sum, child) => sum + countLeaves(child), 0)
+    : node.type === "cluster"
+      ? 0
+      : 1;
+}
+
+function summarise(session: StoredSession): SessionSummary {
+  return {
+    id: session.id,
+    name: session.name,
+    mode: session.source.mode,
+    leafCount: countLeaves(session.tree),
+    editCount: session.curation?.edits.length ?? 0,
+    bytes: new TextEncoder().encode(JSON.stringify(session)).length,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+  };
+}
+
+function newSessionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+async function putSession(
+  db: IDBDatabase,
+  session: StoredSession,
+): Promise<SessionSummary> {
+  const summary = summarise(session);
+  const transaction = db.transaction(
+    [SESSIONS_STORE, SESSION_SUMMARIES_STORE],
+    "readwrite",
+  );
+  transaction.objectStore(SESSIONS_STORE).put(session);
+  transaction.objectStore(SESSION_SUMMARIES_STORE).put(summary);
+  await completed(transaction);
+  return summary;
+}
+
+/**
+ * Save the session `id`, or a new one named `name` when `id` is null or no
+ * longer stored. An existing session keeps its name and creation time.
+ */
+export async function saveSession(
+  id: string | null,
+  content: SessionContent,
+  name: string,
+): Promise<SessionSummary> {
+  const db = await openDatabase();
+  const existing = id
+    ? ((await promised(
+        db
+          .transaction(SESSION_SUMMARIES_STORE)
+          .objectStore(SESSION_SUMMARIES_STORE)
+          .get(id),
+      )) as SessionSummary | undefined)
+    : undefined;
+  const now = new Date().toISOString();
+  return putSession(db, {
+    ...content,
+    id: existing?.id ?? newSessionId(),
+    name: existing?.name ?? name,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  });
+}
+
+export async function loadSession(id: string): Promise<StoredSession | null> {
+  const db = await openDatabase();
+  const stored = await promised(
+    db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).get(id),
+  );
+  return (stored as StoredSession | undefined) ?? null;
+}
+
+// Most recently updated first
+export async function listSessions(): Promise<SessionSummary[]> {
+  const db = await openDatabase();
+  const summaries = await promised(
+    db
+      .transaction(SESSION_SUMMARIES_STORE)
+      .objectStore(SESSION_SUMMARIES_STORE)
+      .getAll(),
+  );
+  return (summaries as SessionSummary[]).sort((a, b) =>
+    b.updatedAt.localeCompare(a.updatedAt),
+  );
+}
+
+export async function renameSession(id: string, name: string): Promise<void> {
+  const session = await loadSession(id);
+  if (!session) throw new Error("That session is no longer stored");
+  await putSession(await openDatabase(), { ...session, name });
+}
+
+export async function duplicateSession(id: string): Promise<SessionSummary> {
+  const session = await loadSession(id);
+  if (!session) throw new Error("That session is no longer stored");
+  const now = new Date().toISOString();
+  return putSession(await openDatabase(), {
+    ...session,
+    id: newSessionId(),
+    name: `${session.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [SESSIONS_STORE, SESSION_SUMMARIES_STORE],
+    "readwrite",
+  );
+  transaction.objectStore(SESSIONS_STORE).delete(id);
+  transaction.objectStore(SESSION_SUMMARIES_STORE).delete(id);
+  await completed(transaction);
+}
+
+/**
+ * Space the browser reports for this site (sessions, word vectors and
+ * caches together), or null where it cannot say.
+ */
+export async function storageEstimate(): Promise<{
+  usage: number;
+  quota: number;
+} | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate)
+    return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+}
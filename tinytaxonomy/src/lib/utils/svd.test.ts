@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { truncatedSvd } from "./svd";
+import { seededRandom, type SparseVector } from "./math";
+
+function sparse(dense: number[]): SparseVector {
+  const indices = dense.flatMap((v, i) => (v !== 0 ? [i] : []));
+  return {
+    indices: Uint32Array.from(indices),
+    values: Float64Array.from(indices, (i) => dense[i]),
+  };
+}
+
+function toDense(v: SparseVector, dims: number): number[] {
+  const dense = new Array(dims).fill(0);
+  v.indices.forEach((index, e) => (dense[index] = v.values[e]));
+  return dense;
+}
+
+const dot = (a: number[], b: number[]) =>
+  a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+const squaredNorm = (rows: SparseVector[]) =>
+  rows.reduce(
+    (sum, { values }) => sum + values.reduce((s, v) => s + v * v, 0),
+    0,
+  );
+
+// 40 rows over 30 terms, about a fifth of them non-zero
+function randomRows(): SparseVector[] {
+  const random = seededRandom(5);
+  return Array.from({ length: 40 }, () =>
+    sparse(Array.from({ length: 30 }, () => (random() < 0.2 ? random() : 0))),
+  );
+}
+
+describe("truncatedSvd", () => {
+  it("finds the singular values of a diagonal matrix", () => {
+    const rows = [3, 1, 6, 2, 5, 4].map((v, i) =>
+      sparse(Array.from({ length: 6 }, (_, j) => (i === j ? v : 0))),
+    );
+    const svd = truncatedSvd(rows, 3);
+    expect(Array.from(svd.singularValues)).toEqual([
+      expect.closeTo(6, 9),
+      expect.closeTo(5, 9),
+      expect.closeTo(4, 9),
+    ]);
+    expect(svd.explainedVariance).toBeCloseTo((36 + 25 + 16) / 91, 9);
+  });
+
+  it("projects onto the requested number of dimensions", () => {
+    const rows = randomRows();
+    const svd = truncatedSvd(rows, 5);
+    expect(svd.singularValues).toHaveLength(5);
+    expect(svd.coordinates).toHaveLength(rows.length);
+    for (const { indices } of svd.coordinates) {
+      expect(Math.max(-1, ...indices)).toBeLessThan(5);
+    }
+    const values = Array.from(svd.singularValues);
+    expect(values).toEqual([...values].sort((a, b) => b - a));
+
+    // The kept share of the norm is the coordinates' share, and at most all of it
+    expect(svd.explainedVariance).toBeGreaterThan(0);
+    expect(svd.explainedVariance).toBeLessThanOrEqual(1);
+    expect(svd.explainedVariance).toBeCloseTo(
+      squaredNorm(svd.coordinates) / squaredNorm(rows),
+      9,
+    );
+  });
+
+  it("stops at the rank and keeps all similarities there", () => {
+    // Every row mixes the same three term profiles
+    const random = seededRandom(9);
+    const profiles = Array.from({ length: 3 }, () =>
+      Array.from({ length: 12 }, () => (random() < 0.5 ? random() : 0)),
+    );
+    const dense = Array.from({ length: 20 }, () => {
+      const weights = profiles.map(() => random());
+      return profiles[0].map((_, t) =>
+        profiles.reduce((sum, p, m) => sum + weights[m] * p[t], 0),
+      );
+    });
+    const rows = dense.map(sparse);
+    const svd = truncatedSvd(rows, 10);
+    expect(svd.singularValues).toHaveLength(3);
+    expect(svd.explainedVariance).toBeCloseTo(1, 9);
+
+    const projected = svd.coordinates.map((v) => toDense(v, 3));
+    for (const i of [0, 7, 13]) {
+      for (const j of [2, 7, 19]) {
+        expect(dot(projected[i], projected[j])).toBeCloseTo(
+          dot(dense[i], dense[j]),
+          9,
+        );
+      }
+    }
+  });
+
+  it("returns empty coordinates for an all-zero matrix", () => {
+    const svd = truncatedSvd([sparse([0, 0]), sparse([0, 0])], 2);
+    expect(svd.singularValues).toHaveLength(0);
+    expect(svd.explainedVariance).toBe(0);
+    expect(svd.coordinates.every((v) => v.indices.length === 0)).toBe(true);
+  });
+});
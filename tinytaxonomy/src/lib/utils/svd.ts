@@ -0,0 +1,256 @@
+/**
+ * Truncated SVD of a sparse matrix by randomized range finding (Halko,
+ * Martinsson & Tropp 2011).
+ *
+ * The rows are multiplied by a random Gaussian matrix with k + oversampling
+ * columns, refined by a few power iterations and orthonormalised; the small
+ * projected matrix is then decomposed exactly (Jacobi eigenvalues of B·Bᵀ).
+ * Cost is a few passes over the non-zeros plus O(n·l²) for the
+ * orthonormalisation, with no n × n or n × d dense matrix anywhere.
+ */
+
+import { seededRandom, type SparseVector } from "./math";
+
+const DEFAULT_OVERSAMPLING = 10;
+const DEFAULT_POWER_ITERATIONS = 2;
+const MAX_JACOBI_SWEEPS = 50;
+
+export interface TruncatedSvdOptions {
+  oversampling?: number;
+  powerIterations?: number;
+  seed?: number;
+}
+
+export interface TruncatedSvd {
+  // Rows projected onto the top right singular vectors, i.e. U·Σ
+  coordinates: SparseVector[];
+  // Descending; may be fewer than requested when the matrix has lower rank
+  singularValues: Float64Array;
+  // Share of the squared Frobenius norm kept by these dimensions (0–1)
+  explainedVariance: number;
+}
+
+// Dense matrices below are kept as arrays of columns
+
+// A·X for the sparse rows A and the d-row columns X
+function multiply(
+  rows: SparseVector[],
+  columns: Float64Array[],
+): Float64Array[] {
+  const out = columns.map(() => new Float64Array(rows.length));
+  rows.forEach(({ indices, values }, i) => {
+    for (let c = 0; c < columns.length; c++) {
+      const column = columns[c];
+      let sum = 0;
+      for (let e = 0; e < indices.length; e++)
+        sum += values[e] * column[indices[e]];
+      out[c][i] = sum;
+    }
+  });
+  return out;
+}
+
+// Aᵀ·Y for the sparse rows A and the n-row columns Y
+function multiplyTransposed(
+  rows: SparseVector[],
+  columns: Float64Array[],
+  dims: number,
+): Float64Array[] {
+  const out = columns.map(() => new Float64Array(dims));
+  rows.forEach(({ indices, values }, i) => {
+    for (let c = 0; c < columns.length; c++) {
+      const y = columns[c][i];
+      if (y === 0) continue;
+      const column = out[c];
+      for (let e = 0; e < indices.length; e++)
+        column[indices[e]] += values[e] * y;
+    }
+  });
+  return out;
+}
+
+function dot(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Orthonormal basis of the columns' span (modified Gram–Schmidt, run twice
+ * for stability). Columns that add nothing new are dropped.
+ */
+function orthonormalize(columns: Float64Array[]): Float64Array[] {
+  const basis: Float64Array[] = [];
+  for (const column of columns) {
+    const original = Math.sqrt(dot(column, column));
+    if (original === 0) continue;
+    for (let pass = 0; pass < 2; pass++) {
+      for (const q of basis) {
+        const projection = dot(column, q);
+        for (let i = 0; i < column.length; i++) column[i] -= projection * q[i];
+      }
+    }
+    const norm = Math.sqrt(dot(column, column));
+    if (norm <= 1e-10 * original) continue;
+    for (let i = 0; i < column.length; i++) column[i] /= norm;
+    basis.push(column);
+  }
+  return basis;
+}
+
+/**
+ * Eigen-decomposition of a small symmetric matrix (given as rows, modified in
+ * place) by cyclic Jacobi rotations. Eigenvector j is column j of `vectors`.
+ */
+function symmetricEigen(a: Float64Array[]): {
+  values: Float64Array;
+  vectors: Float64Array[];
+} {
+  const m = a.length;
+  const v = Array.from({ length: m }, (_, i) => {
+    const row = new Float64Array(m);
+    row[i] = 1;
+    return row;
+  });
+
+  let scale = 0;
+  for (let p = 0; p < m; p++) scale += a[p][p] * a[p][p];
+  for (let sweep = 0; sweep < MAX_JACOBI_SWEEPS; sweep++) {
+    let off = 0;
+    for (let p = 0; p < m; p++)
+      for (let q = p + 1; q < m; q++) off += a[p][q] * a[p][q];
+    if (off <= 1e-24 * scale) break;
+
+    for (let p = 0; p < m - 1; p++) {
+      for (let q = p + 1; q < m; q++) {
+        const apq = a[p][q];
+        if (apq === 0) continue;
+        // Rotation angle that zeroes a[p][q] (Numerical Recipes §11.1)
+        const theta = (a[q][q] - a[p][p]) / (2 * apq);
+        const t =
+          (theta >= 0 ? 1 : -1) /
+          (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < m; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < m; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < m; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  return { values: Float64Array.from(a, (row, i) => row[i]), vectors: v };
+}
+
+/**
+ * The top-`k` singular triplets of the matrix whose rows are `rows`,
+ * returned as row coordinates (see `TruncatedSvd`). `onProgress` receives
+ * the fraction of the passes done.
+ */
+export function truncatedSvd(
+  rows: SparseVector[],
+  k: number,
+  options: TruncatedSvdOptions = {},
+  onProgress?: (fraction: number) => void,
+): TruncatedSvd {
+  const {
+    oversampling = DEFAULT_OVERSAMPLING,
+    powerIterations = DEFAULT_POWER_ITERATIONS,
+    seed = 1,
+  } = options;
+  let dims = 0;
+  let total = 0;
+  for (const { indices, values } of rows) {
+    if (indices.length) dims = Math.max(dims, indices[indices.length - 1] + 1);
+    for (let e = 0; e < values.length; e++) total += values[e] * values[e];
+  }
+  k = Math.max(0, Math.min(k, rows.length, dims));
+  if (k === 0 || total === 0) {
+    return {
+      coordinates: rows.map(() => ({
+        indices: new Uint32Array(0),
+        values: new Float64Array(0),
+      })),
+      singularValues: new Float64Array(0),
+      explainedVariance: 0,
+    };
+  }
+
+  // Gaussian test matrix (Box–Muller)
+  const random = seededRandom(seed);
+  const width = Math.min(k + oversampling, rows.length, dims);
+  const omega = Array.from({ length: width }, () =>
+    Float64Array.from(
+      { length: dims },
+      () =>
+        Math.sqrt(-2 * Math.log(1 - random())) *
+        Math.cos(2 * Math.PI * random()),
+    ),
+  );
+
+  const passes = 2 * powerIterations + 3;
+  let done = 0;
+  const step = () => onProgress?.(++done / passes);
+
+  // Range finder: Q spans (A·Aᵀ)^q · A·Ω
+  let q = orthonormalize(multiply(rows, omega));
+  step();
+  for (let it = 0; it < powerIterations; it++) {
+    const z = orthonormalize(multiplyTransposed(rows, q, dims));
+    step();
+    q = orthonormalize(multiply(rows, z));
+    step();
+  }
+
+  // B = Qᵀ·A, kept as its transpose; B·Bᵀ is small (width × width)
+  const bt = multiplyTransposed(rows, q, dims);
+  const gram = bt.map((a) => Float64Array.from(bt, (b) => dot(a, b)));
+  step();
+
+  const { values, vectors } = symmetricEigen(gram);
+  const order = Array.from(values.keys())
+    .filter((j) => values[j] > 1e-12 * total)
+    .sort((a, b) => values[b] - values[a])
+    .slice(0, k);
+  const singularValues = Float64Array.from(order, (j) => Math.sqrt(values[j]));
+
+  // U·Σ = Q·W·Σ, where W holds the eigenvectors of B·Bᵀ
+  const coordinates = rows.map((_, i) => {
+    const indices: number[] = [];
+    const coords: number[] = [];
+    order.forEach((j, c) => {
+      let sum = 0;
+      for (let m = 0; m < q.length; m++) sum += q[m][i] * vectors[m][j];
+      if (sum !== 0) {
+        indices.push(c);
+        coords.push(sum * singularValues[c]);
+      }
+    });
+    return {
+      indices: Uint32Array.from(indices),
+      values: Float64Array.from(coords),
+    };
+  });
+  step();
+
+  const kept = order.reduce((sum, j) => sum + values[j], 0);
+  return {
+    coordinates,
+    singularValues,
+    explainedVariance: Math.min(1, kept / total),
+  };
+}
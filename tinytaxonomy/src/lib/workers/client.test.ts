@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  createWorkerClient,
+  JobCancelledError,
+  JobSupersededError,
+} from "./client";
+import type { WorkerMessage, WorkerResponse } from "./protocol";
+
+// Records what the client posts; tests answer through `reply`
+class FakeWorker {
+  received: WorkerMessage[] = [];
+  terminated = false;
+  onmessage: ((e: MessageEvent<WorkerResponse>) => void) | null = null;
+
+  postMessage(message: WorkerMessage) {
+    this.received.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  reply(message: WorkerMessage, data: unknown) {
+    this.onmessage?.({
+      data: {
+        id: message.id,
+        version: message.version,
+        kind: message.kind,
+        type: "success",
+        data,
+      },
+    } as MessageEvent<WorkerResponse>);
+  }
+}
+
+function fakeClient() {
+  const workers: FakeWorker[] = [];
+  const client = createWorkerClient(() => {
+    const worker = new FakeWorker();
+    workers.push(worker);
+    return worker as unknown as Worker;
+  });
+  return { client, workers };
+}
+
+describe("supersede", () => {
+  it("rejects the older job of a group and drops its late result", async () => {
+    const { client, workers } = fakeClient();
+    const first = client.recut(1, { by: "count", count: 2 });
+    const second = client.recut(1, { by: "count", count: 3 });
+    await expect(first).rejects.toBeInstanceOf(JobSupersededError);
+
+    const [worker] = workers;
+    const [firstMessage, secondMessage] = worker.received;
+    worker.reply(firstMessage, "stale");
+    worker.reply(secondMessage, "fresh");
+    await expect(second).resolves.toBe("fresh");
+  });
+
+  it("restarts the worker under a superseded analysis", async () => {
+    const { client, workers } = fakeClient();
+    const first = client.analyse("old text", "word");
+    const second = client.analyse("new text", "word");
+    await expect(first).rejects.toBeInstanceOf(JobSupersededError);
+    expect(workers).toHaveLength(2);
+    expect(workers[0].terminated).toBe(true);
+    expect(workers[1].received).toHaveLength(1);
+
+    workers[1].reply(workers[1].received[0], "result");
+    await expect(second).resolves.toBe("result");
+  });
+
+  it("never supersedes exports or jobs of other groups", async () => {
+    const { client, workers } = fakeClient();
+    const jobs = [
+      client.exportTree("json", { name: "a" }),
+      client.exportTree("csv", { name: "b" }),
+      client.classify(1, ["cat"]),
+      client.recut(1, { by: "none" }),
+    ];
+    const [worker] = workers;
+    worker.received.forEach((message, i) => worker.reply(message, i));
+    await expect(Promise.all(jobs)).resolves.toEqual([0, 1, 2, 3]);
+  });
+});
+
+describe("cancel", () => {
+  it("rejects the re-cut and hands other jobs to the new worker", async () => {
+    const { client, workers } = fakeClient();
+    const recut = client.recut(1, { by: "none" });
+    const exported = client.exportTree("json", { name: "root" });
+    const classified = client.classify(1, ["cat"]);
+    client.cancel();
+
+    await expect(recut).rejects.toBeInstanceOf(JobCancelledError);
+    expect(workers).toHaveLength(2);
+    expect(workers[0].terminated).toBe(true);
+    expect(workers[1].received.map((m) => m.kind)).toEqual([
+      "export",
+      "classify",
+    ]);
+
+    const [exportMessage, classifyMessage] = workers[1].received;
+    workers[1].reply(exportMessage, "{}");
+    workers[1].reply(classifyMessage, []);
+    await expect(exported).resolves.toBe("{}");
+    await expect(classified).resolves.toEqual([]);
+  });
+
+  it("rejects a running analysis as cancelled", async () => {
+    const { client } = fakeClient();
+    const analysis = client.analyse("text", "word");
+    client.cancel();
+    await expect(analysis).rejects.toBeInstanceOf(JobCancelledError);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Promise-based client for the cluster worker.
+ *
+ * Each call posts one job and resolves with its result. Jobs that produce
+ * the displayed tree (analyse, re-cut) supersede each other, as do classify
+ * jobs and option sweeps: when a newer one is started the older promise rejects with
+ * `JobSupersededError` and its result is dropped if it still arrives.
+ */
+
+import type { ExportContext } from "../export";
+import type { DendrogramCut, GoldLabels, OptionGrid } from "../pipeline";
+import type {
+  Mode,
+  ProgressCallback,
+  TaxonomyNode,
+  WorkerOptions,
+} from "../types";
+import {
+  WORKER_PROTOCOL_VERSION,
+  type ExportRequest,
+  type JobKind,
+  type JobRequest,
+  type JobResults,
+  type WorkerMessage,
+  type WorkerResponse,
+} from "./protocol";
+
+export class JobSupersededError extends Error {
+  constructor(kind: JobKind) {
+    super(`The ${kind} job was superseded by a newer request`);
+    this.name = "JobSupersededError";
+  }
+}
+
+export class JobCancelledError extends Error {
+  constructor(kind: JobKind) {
+    super(`The ${kind} job was cancelled`);
+    this.name = "JobCancelledError";
+  }
+}
+
+// Jobs in the same group replace each other; export jobs are never superseded
+const SUPERSEDE_GROUPS: Record<JobKind, string | null> = {
+  analyse: "tree",
+  recut: "tree",
+  export: null,
+  classify: "classify",
+  sweep: "sweep",
+};
+
+interface PendingJob {
+  kind: JobKind;
+  // The posted message, re-sent when the worker restarts under the job
+  message: WorkerMessage;
+  resolve: (data: any) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+export interface WorkerClient {
+  analyse(
+    text: string,
+    mode: Mode,
+    options?: WorkerOptions,
+    onProgress?: ProgressCallback,
+  ): Promise<JobResults["analyse"]>;
+  recut(analysisId: number, cut: DendrogramCut): Promise<JobResults["recut"]>;
+  exportTree(
+    formatId: string,
+    tree: TaxonomyNode,
+    context?: ExportContext,
+    recut?: ExportRequest["recut"],
+  ): Promise<JobResults["export"]>;
+  classify(
+    analysisId: number,
+    texts: string[],
+  ): Promise<JobResults["classify"]>;
+  sweep(
+    text: string,
+    mode: Mode,
+    options: WorkerOptions,
+    grid: OptionGrid,
+    gold: GoldLabels | null,
+    matchGoldClasses?: boolean,
+    onProgress?: ProgressCallback,
+  ): Promise<JobResults["sweep"]>;
+  // Stop the running analysis by restarting the worker: analyse and re-cut
+  // jobs reject, other pending jobs are sent again to the new worker
+  cancel(): void;
+  terminate(): void;
+}
+
+/**
+ * Wrap a worker factory in a `WorkerClient`. The factory is called again
+ * whenever the worker has to be restarted (cancel, superseded analysis).
+ */
+export function createWorkerClient(createWorker: () => Worker): WorkerClient {
+  const pending = new Map<number, PendingJob>();
+  let nextId = 1;
+  let worker = start();
+
+  function start(): Worker {
+    const w = createWorker();
+    w.onmessage = (e: MessageEvent<WorkerResponse>) => handle(e.data);
+    return w;
+  }
+
+  function handle(response: WorkerResponse) {
+    const job = pending.get(response.id);
+    // Superseded or cancelled job: drop whatever it still sends
+    if (!job) return;
+
+    if (response.type === "progress") {
+      job.onProgress?.(response.progress);
+      return;
+    }
+
+    pending.delete(response.id);
+    if (response.version !== WORKER_PROTOCOL_VERSION) {
+      job.reject(
+        new Error(
+          `Worker speaks protocol version ${response.version}, expected ${WORKER_PROTOCOL_VERSION} — reload the page`,
+        ),
+      );
+    } else if (response.type === "success") {
+      job.resolve(response.data);
+    } else {
+      job.reject(new Error(response.error));
+    }
+  }
+
+  function rejectAll(reason: (kind: JobKind) => Error) {
+    for (const job of pending.values()) job.reject(reason(job.kind));
+    pending.clear();
+  }
+
+  function restart() {
+    worker.terminate();
+    worker = start();
+  }
+
+  function run<K extends JobKind>(
+    request: JobRequest & { kind: K },
+    onProgress?: ProgressCallback,
+  ): Promise<JobResults[K]> {
+    const group = SUPERSEDE_GROUPS[request.kind];
+    let supersededAnalysis = false;
+    if (group) {
+      for (const [id, job] of pending) {
+        if (SUPERSEDE_GROUPS[job.kind] !== group) continue;
+        supersededAnalysis ||= job.kind === "analyse";
+        pending.delete(id);
+        job.reject(new JobSupersededError(job.kind));
+      }
+    }
+    // An obsolete analysis would keep taking turns with this one whenever
+    // either awaits the distance pool; restart instead when nothing else
+    // is waiting. Otherwise the worker drops it if it finishes last.
+    if (
+      supersededAnalysis &&
+      pending.size === 0 &&
+      request.kind === "analyse"
+    ) {
+      restart();
+    }
+
+    const id = nextId++;
+    const message: WorkerMessage = {
+      ...request,
+      id,
+      version: WORKER_PROTOCOL_VERSION,
+    };
+    return new Promise<JobResults[K]>((resolve, reject) => {
+      pending.set(id, {
+        kind: request.kind,
+        message,
+        resolve,
+        reject,
+        onProgress,
+      });
+      worker.postMessage(message);
+    });
+  }
+
+  return {
+    analyse: (text, mode, options = {}, onProgress) =>
+      run({ kind: "analyse", text, mode, options }, onProgress),
+    recut: (analysisId, cut) => run({ kind: "recut", analysisId, cut }),
+    exportTree: (formatId, tree, context, recut) =>
+      run({ kind: "export", formatId, tree, context, recut }),
+    classify: (analysisId, texts) =>
+      run({ kind: "classify", analysisId, texts }),
+    sweep: (text, mode, options, grid, gold, matchGoldClasses, onProgress) =>
+      run(
+        { kind: "sweep", text, mode, options, grid, gold, matchGoldClasses },
+        onProgress,
+      ),
+    cancel() {
+      for (const [id, job] of pending) {
+        if (SUPERSEDE_GROUPS[job.kind] !== SUPERSEDE_GROUPS.analyse) continue;
+        pending.delete(id);
+        job.reject(new JobCancelledError(job.kind));
+      }
+      restart();
+      // The new worker starts without an analysis: jobs naming one fail there
+      for (const job of pending.values()) worker.postMessage(job.message);
+    },
+    terminate() {
+      rejectAll((kind) => new JobCancelledError(kind));
+      worker.terminate();
+    },
+  };
+}
@@ -0,0 +1,61 @@
+// Distance-pool worker: indexes the vectors of the current matrix once and
+// computes blocks of its packed rows on request (see `distancePool.ts`). Only depends
+// on the math utilities, so it needs none of the NLP shims.
+
+export {};
+
+import {
+  createDistanceIndex,
+  distanceRows,
+  unpackSparseVectors,
+  type DistanceIndex,
+} from "../utils/math";
+import type {
+  DistanceWorkerMessage,
+  DistanceWorkerResponse,
+} from "./distancePool";
+
+declare const self: Worker;
+
+let current: { matrixId: number; index: DistanceIndex } | null = null;
+
+function post(response: DistanceWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(response, transfer);
+}
+
+self.onmessage = (e: MessageEvent<DistanceWorkerMessage>) => {
+  const message = e.data;
+  if (message.type === "vectors") {
+    current = {
+      matrixId: message.matrixId,
+      index: createDistanceIndex(
+        unpackSparseVectors(message.vectors),
+        message.metric,
+      ),
+    };
+    return;
+  }
+
+  const { matrixId, rowStart, rowEnd } = message;
+  if (current?.matrixId !== matrixId) {
+    post({
+      type: "error",
+      matrixId,
+      rowStart,
+      error: `No vectors loaded for matrix ${matrixId}`,
+    });
+    return;
+  }
+  try {
+    const data = distanceRows(current.index, rowStart, rowEnd);
+    // Hand the buffer over instead of copying it
+    post({ type: "rows", matrixId, rowStart, data }, [data.buffer]);
+  } catch (err) {
+    post({
+      type: "error",
+      matrixId,
+      rowStart,
+      error: err instanceof Error ? err.message : "Distance computation failed",
+    });
+  }
+};
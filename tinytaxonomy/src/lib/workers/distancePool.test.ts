@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createDistancePool,
+  PARALLEL_MIN_ROWS,
+  type DistanceWorkerMessage,
+  type DistanceWorkerResponse,
+} from "./distancePool";
+import {
+  createDistanceIndex,
+  distanceMatrix,
+  distanceRows,
+  unpackSparseVectors,
+  type DistanceIndex,
+  type SparseVector,
+} from "../utils/math";
+
+// Answers like distance.worker.ts, asynchronously, counting index builds
+class FakeDistanceWorker {
+  static indexed = 0;
+  onmessage: ((e: MessageEvent<DistanceWorkerResponse>) => void) | null = null;
+  onerror: ((e: ErrorEvent) => void) | null = null;
+  private index: DistanceIndex | null = null;
+
+  postMessage(message: DistanceWorkerMessage) {
+    if (message.type === "vectors") {
+      FakeDistanceWorker.indexed++;
+      this.index = createDistanceIndex(
+        unpackSparseVectors(message.vectors),
+        message.metric,
+      );
+      return;
+    }
+    const data = distanceRows(this.index!, message.rowStart, message.rowEnd);
+    setTimeout(() =>
+      this.onmessage?.({
+        data: {
+          type: "rows",
+          matrixId: message.matrixId,
+          rowStart: message.rowStart,
+          data,
+        },
+      } as MessageEvent<DistanceWorkerResponse>),
+    );
+  }
+
+  terminate() {}
+}
+
+// Sparse vectors over a small vocabulary, so most pairs share a dimension
+function randomVectors(n: number, dimensions: number): SparseVector[] {
+  let seed = 7;
+  const random = () => ((seed = (seed * 16807) % 2147483647) - 1) / 2147483646;
+  return Array.from({ length: n }, () => {
+    const indices = [
+      ...new Set(
+        Array.from({ length: 4 }, () => Math.floor(random() * dimensions)),
+      ),
+    ].sort((a, b) => a - b);
+    return {
+      indices: Uint32Array.from(indices),
+      values: Float64Array.from(indices, () => random() + 0.1),
+    };
+  });
+}
+
+describe("distance pool", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeDistanceWorker.indexed = 0;
+  });
+
+  it("stitches the worker blocks into the single-threaded matrix", async () => {
+    vi.stubGlobal("Worker", FakeDistanceWorker);
+    const pool = createDistancePool(
+      3,
+      () => new FakeDistanceWorker() as unknown as Worker,
+    );
+    const vectors = randomVectors(PARALLEL_MIN_ROWS + 37, 60);
+    const progress: number[] = [];
+
+    for (const metric of ["cosine", "jaccard"] as const) {
+      const matrix = await pool.distanceMatrix(vectors, metric, (f) =>
+        progress.push(f),
+      );
+      expect(matrix.data).toEqual(distanceMatrix(vectors, metric).data);
+    }
+    // Each worker indexes each matrix's vectors once, however many blocks it computes
+    expect(FakeDistanceWorker.indexed).toBe(2 * 3);
+    expect(progress.at(-1)).toBe(1);
+    pool.terminate();
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Pool of distance workers for the distance matrix.
+ *
+ * The packed matrix is split into row blocks of roughly equal pair counts;
+ * each worker indexes the vectors once (`createDistanceIndex`), then idle
+ * workers pull the next block, compute it with `distanceRows` and transfer
+ * the result back, where it is copied into place. Only plain
+ * `postMessage` with transferable buffers is used — no SharedArrayBuffer —
+ * so this works on static hosts without cross-origin isolation headers.
+ *
+ * Small inputs, single-core machines and browsers that cannot start nested
+ * workers use the single-threaded `distanceMatrix` instead; if a pool
+ * worker fails mid-run the remaining blocks are computed in place.
+ */
+
+import DistanceWorker from "./distance.worker?worker";
+import {
+  balancedRowBlocks,
+  createDistanceIndex,
+  createDistanceMatrix,
+  distanceMatrix,
+  distanceRows,
+  packSparseVectors,
+  packedRowOffset,
+  type DistanceMatrix,
+  type PackedSparseVectors,
+  type SparseVector,
+} from "../utils/math";
+import type { DistanceMetric } from "../types";
+
+// Below this many rows the single-threaded path is faster than starting workers
+export const PARALLEL_MIN_ROWS = 1000;
+const MAX_POOL_SIZE = 8;
+// More blocks than workers keeps them busy when blocks take uneven time
+const BLOCKS_PER_WORKER = 4;
+
+export type DistanceWorkerMessage =
+  | {
+      type: "vectors";
+      matrixId: number;
+      metric: DistanceMetric;
+      vectors: PackedSparseVectors;
+    }
+  | { type: "rows"; matrixId: number; rowStart: number; rowEnd: number };
+
+export type DistanceWorkerResponse =
+  | { type: "rows"; matrixId: number; rowStart: number; data: Float64Array }
+  | { type: "error"; matrixId: number; rowStart: number; error: string };
+
+export interface DistancePool {
+  size: number;
+  distanceMatrix(
+    vectors: SparseVector[],
+    metric: DistanceMetric,
+    onProgress?: (fraction: number) => void,
+  ): Promise<DistanceMatrix>;
+  terminate(): void;
+}
+
+export function defaultPoolSize(): number {
+  const cores =
+    typeof navigator !== "undefined" ? (navigator.hardwareConcurrency ?? 1) : 1;
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores));
+}
+
+export function createDistancePool(
+  size = defaultPoolSize(),
+  createWorker: () => Worker = () => new DistanceWorker(),
+): DistancePool {
+  let workers: Worker[] | null = null;
+  // Set once workers failed to start or crashed; later matrices stay single-threaded
+  let broken = size < 2 || typeof Worker === "undefined";
+  let nextMatrixId = 1;
+  // Matrices are computed one after another; each one owns the workers' handlers
+  let queueTail: Promise<unknown> = Promise.resolve();
+
+  function spawn(): Worker[] | null {
+    if (broken) return null;
+    if (!workers) {
+      try {
+        workers = Array.from({ length: size }, createWorker);
+      } catch (err) {
+        broken = true;
+        return null;
+      }
+    }
+    return workers;
+  }
+
+  function shutDown() {
+    workers?.forEach((w) => w.terminate());
+    workers = null;
+  }
+
+  function computeParallel(
+    vectors: SparseVector[],
+    metric: DistanceMetric,
+    onProgress?: (fraction: number) => void,
+  ): Promise<DistanceMatrix> {
+    const n = vectors.length;
+    const pool = n >= PARALLEL_MIN_ROWS ? spawn() : null;
+    if (!pool)
+      return Promise.resolve(distanceMatrix(vectors, metric, onProgress));
+
+    const matrixId = nextMatrixId++;
+    const matrix = createDistanceMatrix(n);
+    const queue = balancedRowBlocks(n, pool.length * BLOCKS_PER_WORKER);
+    const inFlight = new Map<number, [number, number]>();
+    const packed = packSparseVectors(vectors);
+    const total = matrix.data.length || 1;
+    let done = 0;
+
+    return new Promise((resolve) => {
+      let finished = false;
+      const finish = () => {
+        finished = true;
+        pool.forEach((w) => {
+          w.onmessage = null;
+          w.onerror = null;
+        });
+        resolve(matrix);
+      };
+
+      // A worker failed: stop using the pool and compute what is left here
+      const fallBack = () => {
+        if (finished) return;
+        broken = true;
+        shutDown();
+        const index = createDistanceIndex(vectors, metric);
+        for (const [rowStart, rowEnd] of [...inFlight.values(), ...queue]) {
+          matrix.data.set(
+            distanceRows(index, rowStart, rowEnd),
+            packedRowOffset(n, rowStart),
+          );
+        }
+        onProgress?.(1);
+        finish();
+      };
+
+      const dispatch = (worker: Worker) => {
+        const block = queue.shift();
+        if (!block) {
+          if (inFlight.size === 0 && !finished) finish();
+          return;
+        }
+        inFlight.set(block[0], block);
+        worker.postMessage({
+          type: "rows",
+          matrixId,
+          rowStart: block[0],
+          rowEnd: block[1],
+        } satisfies DistanceWorkerMessage);
+      };
+
+      for (const worker of pool) {
+        worker.onmessage = (e: MessageEvent<DistanceWorkerResponse>) => {
+          const response = e.data;
+          if (finished || response.matrixId !== matrixId) return;
+          if (response.type === "error") {
+            fallBack();
+            return;
+          }
+          inFlight.delete(response.rowStart);
+          matrix.data.set(response.data, packedRowOffset(n, response.rowStart));
+          done += response.data.length;
+          onProgress?.(done / total);
+          dispatch(worker);
+        };
+        worker.onerror = (e) => {
+          e.preventDefault();
+          fallBack();
+        };
+        worker.postMessage({
+          type: "vectors",
+          matrixId,
+          metric,
+          vectors: packed,
+        } satisfies DistanceWorkerMessage);
+        dispatch(worker);
+      }
+    });
+  }
+
+  return {
+    size,
+    distanceMatrix(vectors, metric, onProgress) {
+      const run = queueTail.then(() =>
+        computeParallel(vectors, metric, onProgress),
+      );
+      queueTail = run.catch(() => undefined);
+      return run;
+    },
+    terminate: shutDown,
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Message protocol between the page and the cluster worker.
+ *
+ * Every request carries a job id and the protocol version; every response
+ * echoes both, so the client can route results (and progress) to the job
+ * that asked for them and ignore anything it no longer waits for.
+ */
+
+import type { ExportContext } from "../export";
+import type {
+  Classification,
+  ClusterMetrics,
+  DendrogramCut,
+  DendrogramLinkage,
+  EmbeddingCoverage,
+  GoldLabels,
+  LsaSummary,
+  OptionGrid,
+  SweepRun,
+} from "../pipeline";
+import type {
+  Mode,
+  ProgressUpdate,
+  TaxonomyNode,
+  WorkerOptions,
+} from "../types";
+
+// Bump when request or response shapes change incompatibly
+export const WORKER_PROTOCOL_VERSION = 3;
+
+export type JobKind = "analyse" | "recut" | "export" | "classify" | "sweep";
+
+export const JOB_KINDS: JobKind[] = [
+  "analyse",
+  "recut",
+  "export",
+  "classify",
+  "sweep",
+];
+
+// Run the full pipeline; the worker keeps the result for later re-cut and classify jobs.
+// Word vectors named by `options.embeddings` are read from IndexedDB.
+export interface AnalyseRequest {
+  kind: "analyse";
+  text: string;
+  mode: Mode;
+  options?: WorkerOptions;
+}
+
+// Rebuild the tree of an earlier analysis with a different dendrogram cut
+export interface RecutRequest {
+  kind: "recut";
+  analysisId: number;
+  cut: DendrogramCut;
+}
+
+// Serialise a tree in one of the registered export formats
+export interface ExportRequest {
+  kind: "export";
+  formatId: string;
+  tree: TaxonomyNode;
+  context?: ExportContext;
+  // Flat formats: export this re-cut of an earlier analysis instead, with
+  // the hand edits of `context.curation` that still fit
+  recut?: { analysisId: number; cut: DendrogramCut };
+}
+
+// Assign new texts to the closest leaves of an earlier analysis
+export interface ClassifyRequest {
+  kind: "classify";
+  analysisId: number;
+  texts: string[];
+}
+
+// Analyse the text once per combination of `grid` values and score each tree against gold labels (or by its cluster quality)
+export interface SweepRequest {
+  kind: "sweep";
+  text: string;
+  mode: Mode;
+  options?: WorkerOptions;
+  grid: OptionGrid;
+  // null scores each run by its cluster quality instead
+  gold: GoldLabels | null;
+  // Cut each tree into as many top-level clusters as there are gold labels
+  matchGoldClasses?: boolean;
+}
+
+export type JobRequest =
+  | AnalyseRequest
+  | RecutRequest
+  | ExportRequest
+  | ClassifyRequest
+  | SweepRequest;
+
+export interface AnalyseResult {
+  // Id of the analyse job, used by later re-cut and classify requests
+  analysisId: number;
+  tree: TaxonomyNode;
+  // The whole dendrogram, for counting clusters and drawing merge heights before a re-cut
+  linkage: DendrogramLinkage;
+  // Merge height of the automatic cut, when the tree was cut
+  cutoff?: number;
+  // Dimensions and explained variance when LSA was enabled
+  lsa?: LsaSummary;
+  // Set name and share of terms with a vector when word vectors were used
+  embeddings?: EmbeddingCoverage;
+  // Cophenetic correlation and silhouettes, unless approximated or disabled
+  metrics?: ClusterMetrics;
+}
+
+export interface RecutResult {
+  tree: TaxonomyNode;
+  // Silhouettes of the new top-level clusters, when the analysis has metrics
+  metrics?: ClusterMetrics;
+}
+
+export interface JobResults {
+  analyse: AnalyseResult;
+  recut: RecutResult;
+  export: string;
+  classify: Classification[];
+  sweep: SweepRun[];
+}
+
+export type WorkerMessage = JobRequest & {
+  id: number;
+  version: number;
+};
+
+export type WorkerResponse<K extends JobKind = JobKind> = {
+  id: number;
+  version: number;
+  kind: K;
+} & (
+  | { type: "success"; data: JobResults[K] }
+  | { type: "error"; error: string }
+  | { type: "progress"; progress: ProgressUpdate }
+);
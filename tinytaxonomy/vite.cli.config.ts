@@ -0,0 +1,19 @@
+import { defineConfig } from "vite";
+
+// Builds the `tinytaxonomy` command-line tool as a Node ES module. Runtime
+// dependencies stay external and are resolved from node_modules.
+export default defineConfig({
+  build: {
+    ssr: "src/cli/tinytaxonomy.ts",
+    outDir: "dist/cli",
+    emptyOutDir: true,
+    target: "node18",
+    minify: false,
+    rollupOptions: {
+      output: {
+        entryFileNames: "tinytaxonomy.js",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+});
@@ -1,5 +1,5 @@
 import { sveltekit } from '@sveltejs/kit/vite';
-import { defineConfig } from 'vite';
+import { defineConfig } from 'vitest/config';
 import { fileURLToPath } from 'url';
 
 export default defineConfig({
@@ -17,7 +17,7 @@ export default defineConfig({
     },
 
     optimizeDeps: {
-        include: ['wink-nlp', 'wink-eng-lite-web-model', 'ml-hclust']
+        include: ['wink-nlp', 'wink-eng-lite-web-model']
     },
 
     build: {
@@ -27,8 +27,12 @@ export default defineConfig({
             treeshake: false, // disable tree-shaking
         },
         commonjsOptions: {
-            include: [/node_modules\/(wink-nlp|wink-eng-lite-web-model|ml-hclust)/, /node_modules/]
+            include: [/node_modules\/(wink-nlp|wink-eng-lite-web-model)/, /node_modules/]
         }
     },
 
+    test: {
+        include: ['src/**/*.test.ts']
+    }
+
 });